@@ -1,429 +1,546 @@
-import React, { useMemo, useState, useEffect } from "react";
-
-/** Types */
-type BuiltInTool = "web" | "code" | "retrieval" | "image" | "vision";
-type CustomAction = {
-  name: string;
-  description?: string;
-  type: "openapi" | "json-rpc" | "graphql" | "webhook";
-  specUrlOrInline?: string;
-  auth?: { type: "none" | "api_key" | "oauth2"; instructions?: string };
-  rateLimitPerMinute?: number;
-  allowedDomains?: string[];
-};
-type MemoryPolicy = { enabled: boolean; scope?: "conversation" | "user"; dataRetentionDays?: number };
-type SafetyPolicy = { jailbreakDefense?: boolean; blockDisallowedContent?: boolean; piiRedaction?: boolean; customDisallowedPhrases?: string[] };
-type ConversationStarter = { title: string; prompt: string };
-type PersonaStyle = {
-  writingTone?: "casual" | "formal" | "technical" | "friendly" | "playful" | "neutral";
-  emojiUse?: "none" | "light" | "moderate" | "heavy";
-  responseLength?: "short" | "medium" | "long";
-};
-type CustomGPTConfig = {
-  schemaVersion: string;
-  name: string;
-  description?: string;
-  instructions: string;
-  language?: string;
-  persona?: PersonaStyle;
-  builtInTools?: BuiltInTool[];
-  customActions?: CustomAction[];
-  knowledge?: { enabled: boolean; documents?: string[] };
-  memory?: MemoryPolicy;
-  safety?: SafetyPolicy;
-  conversationStarters?: ConversationStarter[];
-  sampleQuestions?: string[];
-  tags?: string[];
-  createdAt?: string;
-};
-
-/** Defaults */
-const defaultConfig: CustomGPTConfig = {
-  schemaVersion: "1.0",
-  name: "Untitled Custom GPT",
-  description: "",
-  instructions: "You are a helpful assistant.",
-  language: "en",
-  persona: { writingTone: "friendly", emojiUse: "light", responseLength: "medium" },
-  builtInTools: ["web"],
-  customActions: [],
-  knowledge: { enabled: false, documents: [] },
-  memory: { enabled: false, scope: "user", dataRetentionDays: 180 },
-  safety: { jailbreakDefense: true, blockDisallowedContent: true, piiRedaction: false, customDisallowedPhrases: [] },
-  conversationStarters: [{ title: "What can you do?", prompt: "Give me a quick overview of your abilities." }],
-  sampleQuestions: ["How do I get started?"],
-  tags: ["starter"],
-  createdAt: new Date().toISOString(),
-};
-
-/** UI atoms */
-function Label({ children }: { children: React.ReactNode }) {
-  return <label className="text-[13px] font-medium text-gray-700">{children}</label>;
-}
-function TextArea({ label, value, onChange, rows = 6, placeholder }:
-  { label: string; value: string; onChange: (v: string) => void; rows?: number; placeholder?: string; }) {
-  return (
-    <div className="flex flex-col gap-2">
-      <Label>{label}</Label>
-      <textarea
-        className="w-full rounded-2xl border border-gray-200 p-3 text-[15px] leading-6 focus:outline-none focus:ring-2 focus:ring-gray-300"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        rows={rows}
-        placeholder={placeholder}
-      />
-    </div>
-  );
-}
-function Input({ label, value, onChange, placeholder, type = "text", inputMode }:
-  { label: string; value: string; onChange: (v: string) => void; placeholder?: string; type?: string; inputMode?: React.HTMLAttributes<HTMLInputElement>["inputMode"]; }) {
-  return (
-    <div className="flex flex-col gap-2">
-      <Label>{label}</Label>
-      <input
-        className="w-full rounded-2xl border border-gray-200 p-3 text-[15px] leading-6 focus:outline-none focus:ring-2 focus:ring-gray-300"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        placeholder={placeholder}
-        type={type}
-        inputMode={inputMode}
-      />
-    </div>
-  );
-}
-function Toggle({ label, checked, onChange }:{ label: string; checked: boolean; onChange: (v: boolean)=>void; }){
-  return (
-    <label className="flex items-center gap-3 cursor-pointer select-none">
-      <input className="h-5 w-5 accent-black" type="checkbox" checked={checked} onChange={(e)=>onChange(e.target.checked)} />
-      <span className="text-[14px]">{label}</span>
-    </label>
-  );
-}
-function Pill({ text, onRemove }:{ text: string; onRemove?: ()=>void; }){
-  return (
-    <span className="inline-flex items-center gap-2 rounded-full border border-gray-200 px-3 py-1 text-[12px]">
-      {text}
-      {onRemove && <button onClick={onRemove} className="opacity-60 hover:opacity-100" aria-label="Remove">×</button>}
-    </span>
-  );
-}
-function Section({ title, children, defaultOpen = false, hint }:
-  { title: string; children: React.ReactNode; defaultOpen?: boolean; hint?: string; }) {
-  return (
-    <details className="rounded-2xl border border-gray-200 bg-white open:shadow-sm" open={defaultOpen}>
-      <summary className="list-none cursor-pointer select-none px-4 py-3 text-[15px] font-semibold flex items-center justify-between">
-        <span>{title}</span>
-        {hint && <span className="text-xs text-gray-500">{hint}</span>}
-      </summary>
-      <div className="p-4 pt-0">
-        <div className="h-px bg-gray-100 mb-4" />
-        {children}
-      </div>
-    </details>
-  );
-}
-function Toast({ show, text }:{ show:boolean; text:string }){
-  return (
-    <div className={`fixed left-1/2 top-4 z-50 -translate-x-1/2 transform rounded-full bg-black px-4 py-2 text-white text-sm transition-opacity ${show ? "opacity-100" : "opacity-0"}`} role="status" aria-live="polite">
-      {text}
-    </div>
-  );
+import React, { useMemo, useState, useEffect, useReducer, useRef } from "react";
+import {
+  BUILT_IN_TOOLS, buildConfig, bundleKnowledge, configJsonSchema, configLocales, countBySeverity, createZip, CURRENT_SCHEMA_VERSION, decodeShare, DEFAULT_PLAYGROUND, DEFAULT_PROMPT_BUDGET,
+  defaultConfig, defaultLocale, EMOJI_USES, exportConfig, exportLocales, getExporter, ingestKnowledgeFile, issuesUnder, layerSafety, lintPolicy, listExporters, localizeConfig, MEMORY_SCOPES, parseConfig,
+  policyIssues, readShareFragment, redactSecrets, scanSecrets, secretIssues, RESPONSE_LENGTHS, textDirection, TOOL_LABELS, untranslatedFields, validateConfig, WRITING_TONES, type ConfigIssue, type CustomGPTConfig, type LocalizedField,
+  type MemoryPolicy, type MigrationStep, type PersonaStyle, type Template, type TranscriptRun,
+} from "./core";
+import {
+  addSnapshot, addTemplate, addTranscriptRun, createEntry, deleteEntry, deleteSnapshot, deleteTemplate, deleteTranscriptRun, duplicateEntry, emptyWorkspace, getEntry, localStorageBackend,
+  renameEntry, sameContent, setOrgSafety, updateEntry, type Snapshot, type Workspace,
+} from "./core/workspace";
+import { initHistory, record, redo, undo } from "./core/history";
+import { configReducer, editorConfig, listEdits, parseBulk } from "./core/editor";
+import { Input, IssueList, Label, NumberInput, Section, TextArea, Toast, Toggle } from "./components/ui";
+import { WorkspaceSidebar } from "./components/WorkspaceSidebar";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { TemplateGallery } from "./components/TemplateGallery";
+import { PromptPreview } from "./components/PromptPreview";
+import { PolicyPanel } from "./components/PolicyPanel";
+import { KnowledgePanel } from "./components/KnowledgePanel";
+import { PlaygroundPanel } from "./components/PlaygroundPanel";
+import { ActionsEditor } from "./components/ActionsEditor";
+import { StartersEditor } from "./components/StartersEditor";
+import { StringListEditor } from "./components/ListEditor";
+import { SharePanel } from "./components/SharePanel";
+import { FallbackList, LocaleBar } from "./components/LocaleBar";
+import { SecretGate, type ExportKind } from "./components/SecretGate";
+
+/** Saves `content` as a file through a temporary object URL */
+function downloadText(name: string, content: string | Uint8Array, mime: string){
+  const url=URL.createObjectURL(new Blob([content as BlobPart],{type:mime}));
+  const a=document.createElement("a"); a.href=url; a.download=name; a.click(); URL.revokeObjectURL(url);
 }
 
 /** Main component */
 export default function CustomGPTSchemaGenerator(){
-  const [cfg] = useState<CustomGPTConfig>({ ...defaultConfig });
-
-  // Basic
-  const [name, setName] = useState(cfg.name);
-  const [description, setDescription] = useState(cfg.description || "");
-  const [instructions, setInstructions] = useState(cfg.instructions);
-  const [language, setLanguage] = useState(cfg.language || "en");
-
-  // Persona
-  const [tone, setTone] = useState(cfg.persona?.writingTone || "friendly");
-  const [emoji, setEmoji] = useState(cfg.persona?.emojiUse || "light");
-  const [lengthPref, setLengthPref] = useState(cfg.persona?.responseLength || "medium");
-
-  // Tools
-  const [toolWeb, setToolWeb] = useState(cfg.builtInTools?.includes("web") || false);
-  const [toolCode, setToolCode] = useState(cfg.builtInTools?.includes("code") || false);
-  const [toolRetrieval, setToolRetrieval] = useState(cfg.builtInTools?.includes("retrieval") || false);
-  const [toolImage, setToolImage] = useState(cfg.builtInTools?.includes("image") || false);
-  const [toolVision, setToolVision] = useState(cfg.builtInTools?.includes("vision") || false);
-
-  // Custom actions
-  const [actions, setActions] = useState<CustomAction[]>(cfg.customActions || []);
-  const [actionDraft, setActionDraft] = useState<CustomAction>({ name: "", type: "openapi", specUrlOrInline: "" });
-
-  // Knowledge
-  const [knowledgeEnabled, setKnowledgeEnabled] = useState(cfg.knowledge?.enabled || false);
-  const [knowledgeDocs, setKnowledgeDocs] = useState<string[]>(cfg.knowledge?.documents || []);
-  const [docDraft, setDocDraft] = useState("");
-
-  // Memory & safety
-  const [memoryEnabled, setMemoryEnabled] = useState(cfg.memory?.enabled || false);
-  const [memoryScope, setMemoryScope] = useState(cfg.memory?.scope || "user");
-  const [retention, setRetention] = useState(String(cfg.memory?.dataRetentionDays || 180));
-  const [jailbreakDefense, setJailbreakDefense] = useState(!!cfg.safety?.jailbreakDefense);
-  const [blockDisallowed, setBlockDisallowed] = useState(!!cfg.safety?.blockDisallowedContent);
-  const [piiRedaction, setPiiRedaction] = useState(!!cfg.safety?.piiRedaction);
-  const [customPhrases, setCustomPhrases] = useState<string[]>(cfg.safety?.customDisallowedPhrases || []);
-  const [phraseDraft, setPhraseDraft] = useState("");
-
-  // UX polish
-  const [starters, setStarters] = useState<ConversationStarter[]>(cfg.conversationStarters || []);
-  const [starterTitle, setStarterTitle] = useState("");
-  const [starterPrompt, setStarterPrompt] = useState("");
-  const [sampleQs, setSampleQs] = useState<string[]>(cfg.sampleQuestions || []);
-  const [sampleDraft, setSampleDraft] = useState("");
-  const [tags, setTags] = useState<string[]>(cfg.tags || []);
-  const [tagDraft, setTagDraft] = useState("");
+  // Workspace: the active entry seeds the editor; edits autosave back into it
+  const storage = useMemo(()=>localStorageBackend(), []);
+  const [workspace, setWorkspace] = useState<Workspace>(()=>{
+    const ws = storage.load();
+    if (!ws || !ws.entries.length) return emptyWorkspace();
+    return getEntry(ws, ws.activeId) ? ws : { ...ws, activeId: ws.entries[0].id };
+  });
+  const activeEntry = getEntry(workspace, workspace.activeId);
+  // Config being edited: every change goes through the reducer as a typed action
+  const [cfg, dispatch] = useReducer(configReducer, activeEntry?.config ?? defaultConfig, editorConfig);
+  const tools = cfg.builtInTools || [];
+
+  // Attached file contents by sha256; kept for this session only, since they are too large for the workspace
+  const [fileBytes, setFileBytes] = useState<Map<string, Uint8Array>>(()=>new Map());
+  const [fileTexts, setFileTexts] = useState<Map<string, string>>(()=>new Map());
+
+  // Import
+  const [importText, setImportText] = useState("");
+  const [importIssues, setImportIssues] = useState<ConfigIssue[]>([]);
+  const [importMigrations, setImportMigrations] = useState<MigrationStep[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
 
   // Toast
-  const [copied, setCopied] = useState(false);
-  useEffect(()=>{ if(!copied) return; const t=setTimeout(()=>setCopied(false),1200); return ()=>clearTimeout(t); },[copied]);
+  const [toast, setToast] = useState("");
+  useEffect(()=>{ if(!toast) return; const t=setTimeout(()=>setToast(""),1200); return ()=>clearTimeout(t); },[toast]);
+
+  // Persist the workspace whenever it changes
+  useEffect(()=>{ if(!storage.save(workspace)) setToast("Could not save workspace"); }, [workspace, storage]);
 
   // Derived JSON
-  const output = useMemo<CustomGPTConfig>(() => {
-    const builtIn: BuiltInTool[] = [];
-    if (toolWeb) builtIn.push("web");
-    if (toolCode) builtIn.push("code");
-    if (toolRetrieval) builtIn.push("retrieval");
-    if (toolImage) builtIn.push("image");
-    if (toolVision) builtIn.push("vision");
+  const output = useMemo<CustomGPTConfig>(() => buildConfig({ ...cfg, createdAt: activeEntry?.config.createdAt, updatedAt: activeEntry?.config.updatedAt }), [cfg, activeEntry]);
+
+  // Export format
+  const [format, setFormat] = useState("json");
+  const exporter = getExporter(format) ?? getExporter("json")!;
+  const exported = useMemo(()=>exportConfig(output, format), [output, format]);
+
+  // Review mode shows a shared config read-only; nothing is saved or recorded until it is kept as a copy
+  const [reviewing, setReviewing] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  // Autosave edits into the active entry (updateEntry only bumps updatedAt on real changes)
+  useEffect(()=>{ const t=setTimeout(()=>setWorkspace(ws=>flush(ws)),400); return ()=>clearTimeout(t); }, [output]);
+  function flush(ws: Workspace){ return ws.activeId && !reviewing ? updateEntry(ws, ws.activeId, output) : ws; }
+
+  // Undo/redo: edits are recorded after a short pause so typing coalesces into one step
+  const [history, setHistory] = useState(()=>initHistory(output));
+  useEffect(()=>{ if(reviewing) return; const t=setTimeout(()=>setHistory(h=>record(h, output, sameContent)),500); return ()=>clearTimeout(t); }, [output, reviewing]);
+  function step(move: typeof undo){
+    if (reviewing) return;
+    // Commit any pending edit first so undo never skips it
+    const h = move(record(history, output, sameContent));
+    setHistory(h);
+    if (!sameContent(h.present, output)) loadConfig(h.present);
+  }
+  const canUndo = !reviewing && (history.past.length > 0 || !sameContent(history.present, output));
+  const canRedo = !reviewing && history.future.length > 0;
+  useEffect(()=>{
+    function onKey(e: KeyboardEvent){
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      // Leave text fields to the browser's own undo
+      const el = e.target as HTMLElement;
+      if (el.closest("input, textarea, select, [contenteditable=true]")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) { e.preventDefault(); step(undo); }
+      else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); step(redo); }
+    }
+    window.addEventListener("keydown", onKey);
+    return ()=>window.removeEventListener("keydown", onKey);
+  });
+
+  // Validation, plus policy findings and secret scan hits as advisory warnings on the fields they point at
+  const policyReport = useMemo(()=>lintPolicy(output, workspace.policy), [output, workspace.policy]);
+  // Flagging only highlights secrets; the export gate (runExport) is what keeps them out of copies and downloads
+  const secrets = useMemo(()=>scanSecrets(output), [output]);
+  const [secretGate, setSecretGate] = useState<ExportKind | null>(null);
+  const issues = useMemo(()=>[...validateConfig(output), ...policyIssues(policyReport), ...secretIssues(secrets)], [output, policyReport, secrets]);
+  const at = (path: string) => issues.filter(i=>i.path === path);
+  const under = (path: string) => issuesUnder(issues, path);
+  const errorCount = countBySeverity(issues).errors;
+  const [exportAnyway, setExportAnyway] = useState(false);
+  function exportBlocked(){
+    if (!errorCount || exportAnyway) return false;
+    setToast(`Fix ${errorCount} error${errorCount === 1 ? "" : "s"} before exporting`);
+    return true;
+  }
+
+  // Locale being edited: the default locale edits the main fields, any other edits its overrides
+  const [locale, setLocale] = useState("");
+  const baseLocale = defaultLocale(output);
+  const activeLocale = configLocales(output).includes(locale) ? locale : baseLocale;
+  const translating = activeLocale !== baseLocale;
+  const overrides = translating ? output.locales?.[activeLocale] ?? {} : undefined;
+  const untranslated = useMemo(()=>untranslatedFields(output, activeLocale), [output, activeLocale]);
+  const localized = useMemo(()=>translating ? localizeConfig(output, activeLocale) : output, [output, activeLocale, translating]);
+  const dir = textDirection(activeLocale);
+  const localPath = (field: LocalizedField) => translating ? `locales.${activeLocale}.${field}` : field;
+  function fieldIssues(field: LocalizedField): ConfigIssue[] {
+    const own = at(localPath(field));
+    return untranslated.includes(field) ? [...own, { path: localPath(field), severity: "warning", message: `Not translated — the ${baseLocale} text is used` }] : own;
+  }
+  function textProps(field: "name" | "description" | "instructions", placeholder: string){
+    if (!overrides) return { value: cfg[field] || "", placeholder, onChange: (v: string)=>dispatch({ type: "set", patch: { [field]: v } }), issues: fieldIssues(field), dir };
+    // Clearing a translated field drops the override, so it falls back to the default text again
+    return { value: overrides[field] ?? "", placeholder: cfg[field] || placeholder, onChange: (v: string)=>dispatch({ type: "localize", locale: activeLocale, patch: { [field]: v || undefined } }), issues: fieldIssues(field), dir };
+  }
+  function localeList<T>(items: T[], field: "conversationStarters" | "sampleQuestions"){
+    return listEdits(items, (next)=>dispatch({ type: "localize", locale: activeLocale, patch: { [field]: next } }));
+  }
+  function addLocale(l: string){ dispatch({ type: "addLocale", locale: l }); setLocale(l); }
+  function removeLocale(l: string){ if(!window.confirm(`Remove the ${l} translation?`)) return; dispatch({ type: "removeLocale", locale: l }); setLocale(""); }
+
+  // Mutators
+  function listProps(list: "sampleQuestions" | "tags" | "safety.customDisallowedPhrases"){
     return {
-      schemaVersion: "1.0",
-      name, description, instructions, language,
-      persona: { writingTone: tone as PersonaStyle["writingTone"], emojiUse: emoji as PersonaStyle["emojiUse"], responseLength: lengthPref as PersonaStyle["responseLength"] },
-      builtInTools: builtIn,
-      customActions: actions,
-      knowledge: { enabled: knowledgeEnabled, documents: knowledgeDocs },
-      memory: { enabled: memoryEnabled, scope: memoryScope as MemoryPolicy["scope"], dataRetentionDays: Math.max(0, Number(retention) || 0) },
-      safety: { jailbreakDefense, blockDisallowedContent: blockDisallowed, piiRedaction, customDisallowedPhrases: customPhrases },
-      conversationStarters: starters,
-      sampleQuestions: sampleQs,
-      tags,
-      createdAt: new Date().toISOString(),
+      issuesAt: (i: number)=>under(`${list}.${i}`),
+      parse: (text: string)=>parseBulk(list, text),
+      onAdd: (items: string[])=>dispatch({ type: "add", list, items }),
+      onUpdate: (index: number, item: string)=>dispatch({ type: "update", list, index, item }),
+      onRemove: (index: number)=>dispatch({ type: "remove", list, index }),
+      onMove: (from: number, to: number)=>dispatch({ type: "move", list, from, to }),
     };
-  }, [name, description, instructions, language, tone, emoji, lengthPref, toolWeb, toolCode, toolRetrieval, toolImage, toolVision, actions, knowledgeEnabled, knowledgeDocs, memoryEnabled, memoryScope, retention, jailbreakDefense, blockDisallowed, piiRedaction, customPhrases, starters, sampleQs, tags]);
+  }
+  async function attachFiles(files: File[]){
+    // A read failure, or no crypto.subtle outside HTTPS, fails that file only and is reported like an unsupported type
+    const results = await Promise.all(files.map(async f=>{
+      try { const bytes = new Uint8Array(await f.arrayBuffer()); return { bytes, res: await ingestKnowledgeFile(f.name, bytes, f.type) }; }
+      catch (e) { return { bytes: new Uint8Array(), res: { error: `${f.name}: could not be read (${(e as Error).message})` } }; }
+    }));
+    const failed = results.flatMap(r=>"error" in r.res ? [r.res.error] : []);
+    const ok = results.flatMap(r=>"error" in r.res ? [] : [{ bytes: r.bytes, ...r.res }]);
+    if (ok.length) {
+      setFileBytes(m=>new Map([...m, ...ok.map(o=>[o.file.sha256, o.bytes] as const)]));
+      setFileTexts(m=>new Map([...m, ...ok.map(o=>[o.file.sha256, o.text] as const)]));
+      dispatch({ type: "add", list: "knowledge.documents", items: ok.map(o=>o.file) });
+    }
+    setToast(failed.length ? failed[0] : `Attached ${ok.length} file${ok.length === 1 ? "" : "s"} ✓`);
+  }
+  // Exports: validation errors block first, then the secret scan stops at the gate until the user redacts
+  function runExport(kind: ExportKind, redact = false){
+    if (!redact) {
+      if (exportBlocked()) return;
+      if (secrets.length) { setSecretGate(kind); return; }
+    }
+    setSecretGate(null);
+    const source = redact ? redactSecrets(output) : output;
+    if (kind === "copy") copyExport(source); else if (kind === "download") downloadExport(source); else if (kind === "bundle") downloadBundle(source); else downloadLocales(source);
+  }
+  async function copyExport(source: CustomGPTConfig){ await navigator.clipboard.writeText(exportConfig(source, format).content); setToast(source === output ? "Copied ✓" : "Copied with secrets redacted ✓"); }
+  function downloadExport(source: CustomGPTConfig){ downloadText(`${cfg.name || "custom-gpt"}.${exporter.extension}`, exportConfig(source, format).content, exporter.mime); }
 
-  // Mutators
-  function addAction(){ if(!actionDraft.name.trim()) return; setActions(prev=>[...prev, actionDraft]); setActionDraft({ name: "", type: "openapi", specUrlOrInline: "" }); }
-  function removeAction(i:number){ setActions(prev=>prev.filter((_,idx)=>idx!==i)); }
-  function addDoc(){ if(!docDraft.trim()) return; setKnowledgeDocs(p=>[...p, docDraft.trim()]); setDocDraft(""); }
-  function removeDoc(i:number){ setKnowledgeDocs(p=>p.filter((_,idx)=>idx!==i)); }
-  function addPhrase(){ if(!phraseDraft.trim()) return; setCustomPhrases(p=>[...p, phraseDraft.trim()]); setPhraseDraft(""); }
-  function removePhrase(i:number){ setCustomPhrases(p=>p.filter((_,idx)=>idx!==i)); }
-  function addStarter(){ if(!starterTitle.trim() || !starterPrompt.trim()) return; setStarters(s=>[...s,{title:starterTitle.trim(),prompt:starterPrompt.trim()}]); setStarterTitle(""); setStarterPrompt(""); }
-  function removeStarter(i:number){ setStarters(s=>s.filter((_,idx)=>idx!==i)); }
-  function addSample(){ if(!sampleDraft.trim()) return; setSampleQs(s=>[...s, sampleDraft.trim()]); setSampleDraft(""); }
-  function removeSample(i:number){ setSampleQs(s=>s.filter((_,idx)=>idx!==i)); }
-  function addTag(){ if(!tagDraft.trim()) return; setTags(t=>[...t, tagDraft.trim()]); setTagDraft(""); }
-  function removeTag(i:number){ setTags(t=>t.filter((_,idx)=>idx!==i)); }
-  async function copyJSON(){ await navigator.clipboard.writeText(JSON.stringify(output,null,2)); setCopied(true); }
-  function downloadJSON(){ const blob=new Blob([JSON.stringify(output,null,2)],{type:"application/json"}); const url=URL.createObjectURL(blob); const a=document.createElement("a"); a.href=url; a.download=`${name || "custom-gpt"}.json`; a.click(); URL.revokeObjectURL(url); }
+  function downloadPolicyReport(){ downloadText(`${cfg.name || "custom-gpt"}.policy-report.json`, JSON.stringify(lintPolicy(output, workspace.policy),null,2), "application/json"); }
+  function downloadBundle(source: CustomGPTConfig){
+    const { zip, missing } = bundleKnowledge(source, fileBytes);
+    downloadText(`${cfg.name || "custom-gpt"}.zip`, zip, "application/zip");
+    setToast(missing.length ? `Bundled without ${missing.length} file${missing.length === 1 ? "" : "s"} not loaded this session` : "Bundle downloaded ✓");
+  }
+  function downloadLocales(source: CustomGPTConfig){
+    const files = exportLocales(source, format, cfg.name || "custom-gpt");
+    const zip = createZip(files.map(f=>({ name: f.fileName, data: new TextEncoder().encode(f.result.content) })));
+    downloadText(`${cfg.name || "custom-gpt"}.locales.zip`, zip, "application/zip");
+    setToast(`${files.length} locale files downloaded ✓`);
+  }
+  function downloadSchema(){ downloadText(`custom-gpt-config-${CURRENT_SCHEMA_VERSION}.schema.json`, JSON.stringify(configJsonSchema,null,2), "application/schema+json"); }
+
+  // Import: replaces every field, falling back to defaults for anything the document leaves out
+  function loadConfig(c: CustomGPTConfig){ dispatch({ type: "load", config: c }); }
+  // Workspace entries: save the current edits before switching away; each entry starts a fresh undo history
+  function openEntry(c: CustomGPTConfig){ loadConfig(c); setHistory(initHistory(c)); }
+  function selectEntry(id: string){
+    const entry = getEntry(workspace, id);
+    if (!entry || id === workspace.activeId) return;
+    setWorkspace({ ...flush(workspace), activeId: id });
+    openEntry(entry.config);
+  }
+  function newEntry(){
+    const start = workspace.orgSafety ? layerSafety(defaultConfig, workspace.orgSafety) : defaultConfig;
+    const [ws, entry] = createEntry(flush(workspace), { ...start });
+    setWorkspace(ws); openEntry(entry.config);
+  }
+  function duplicate(id: string){
+    const res = duplicateEntry(flush(workspace), id);
+    if (!res) return;
+    setWorkspace(res[0]); openEntry(res[1].config); setToast("Duplicated ✓");
+  }
+  function rename(id: string, newName: string){ if (id === workspace.activeId) dispatch({ type: "set", patch: { name: newName } }); else setWorkspace(renameEntry(workspace, id, newName)); }
+  function remove(id: string){
+    let ws = deleteEntry(flush(workspace), id);
+    if (!ws.entries.length) ws = emptyWorkspace();
+    setWorkspace(ws);
+    if (id === workspace.activeId) openEntry(getEntry(ws, ws.activeId)!.config);
+  }
+
+  // Snapshots of the active entry
+  function saveSnapshot(snapName: string){ if(!workspace.activeId) return; setWorkspace(addSnapshot(flush(workspace), workspace.activeId, snapName, output)); setToast("Snapshot saved ✓"); }
+  function restoreSnapshot(snap: Snapshot){ loadConfig(snap.config); setToast(`Restored “${snap.name}”`); }
+  function removeSnapshot(id: string){ if(workspace.activeId) setWorkspace(deleteSnapshot(workspace, workspace.activeId, id)); }
+
+  // Templates: applying one is an ordinary edit, so it can be undone
+  function applyTemplateConfig(c: CustomGPTConfig, t: Template){ loadConfig(c); setToast(`Applied “${t.name}”`); }
+  function saveTemplate(templateName: string, templateDescription: string){ setWorkspace(addTemplate(workspace, templateName, templateDescription, output)[0]); setToast("Template saved ✓"); }
+
+  // Playground transcripts belong to the active entry
+  function saveRun(run: TranscriptRun){ if(workspace.activeId) setWorkspace(ws=>addTranscriptRun(ws, ws.activeId!, run)); }
+  function removeRun(id: string){ if(workspace.activeId) setWorkspace(ws=>deleteTranscriptRun(ws, ws.activeId!, id)); }
+  function downloadRuns(){ downloadText(`${cfg.name || "custom-gpt"}.transcripts.json`, JSON.stringify(activeEntry?.transcripts || [],null,2), "application/json"); }
+
+  function importJSON(text: string){
+    const { config, issues, migrations } = parseConfig(text);
+    setImportIssues(issues); setImportMigrations(migrations);
+    if (!config) return;
+    loadConfig(config);
+    setImportText("");
+    setToast(issues.length ? `Imported with ${issues.length} issue${issues.length === 1 ? "" : "s"}` : "Imported ✓");
+  }
+  async function importFile(file?: File){ if(!file) return; importJSON(await file.text()); }
+  function onDrop(e: React.DragEvent){ e.preventDefault(); setDragging(false); if(!reviewing) importFile(e.dataTransfer.files[0]); }
+
+  // Share links carry the config in the URL fragment: review links open read-only, copy links become a new entry
+  async function openShareLink(){
+    const link = readShareFragment(window.location.hash);
+    if (!link) return;
+    // Copy links are consumed up front so a reload (or a second effect run) cannot save the copy twice
+    if (link.mode === "copy") clearShareLink();
+    const { config, issues, migrations } = await decodeShare(link.payload);
+    if (!config) { clearShareLink(); setImportIssues(issues); setImportMigrations([]); setToast("Could not open the share link"); return; }
+    if (link.mode === "copy") { keepSharedCopy(config); return; }
+    setImportIssues(issues); setImportMigrations(migrations);
+    setSharing(false); setReviewing(true); loadConfig(config);
+  }
+  function clearShareLink(){ window.history.replaceState(null, "", window.location.pathname + window.location.search); }
+  function keepSharedCopy(c: CustomGPTConfig){
+    const [ws, entry] = createEntry(reviewing ? workspace : flush(workspace), { ...c });
+    setWorkspace(ws); setReviewing(false); clearShareLink(); openEntry(entry.config); setToast("Saved as a new entry ✓");
+  }
+  function closeReview(){ setReviewing(false); clearShareLink(); openEntry(activeEntry?.config ?? defaultConfig); }
+  async function copyShareLink(url: string){ await navigator.clipboard.writeText(url); setToast("Link copied ✓"); }
+  useEffect(()=>{ openShareLink(); }, []);
+  useEffect(()=>{
+    window.addEventListener("hashchange", openShareLink);
+    return ()=>window.removeEventListener("hashchange", openShareLink);
+  });
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <Toast show={copied} text="Copied ✓" />
+    <div className={`min-h-screen bg-gray-50 ${dragging ? "ring-4 ring-inset ring-gray-300" : ""}`}
+      onDragOver={(e)=>{ e.preventDefault(); setDragging(true); }} onDragLeave={(e)=>{ if(e.currentTarget === e.target) setDragging(false); }} onDrop={onDrop}>
+      <Toast show={!!toast} text={toast} />
       <header className="sticky top-0 z-40 border-b border-gray-200 bg-white/80 backdrop-blur">
         <div className="mx-auto max-w-6xl px-4 py-3">
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
             <h1 className="text-xl sm:text-2xl font-semibold">Custom GPT Schema Generator</h1>
-            <div className="grid grid-cols-2 gap-2 sm:flex sm:gap-3">
-              <button onClick={copyJSON} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Copy JSON</button>
-              <button onClick={downloadJSON} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download JSON</button>
+            <div className="grid grid-cols-3 gap-2 sm:flex sm:gap-3">
+              <button onClick={()=>step(undo)} disabled={!canUndo} title="Undo (Ctrl/⌘+Z)" className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-40">Undo</button>
+              <button onClick={()=>step(redo)} disabled={!canRedo} title="Redo (Ctrl/⌘+Shift+Z)" className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-40">Redo</button>
+              <select aria-label="Export format" className="col-span-3 rounded-xl border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-gray-300 sm:col-span-1" value={format} onChange={(e)=>setFormat(e.target.value)}>
+                {listExporters().map(x=>(<option key={x.id} value={x.id}>{x.label}</option>))}
+              </select>
+              <button onClick={()=>fileInput.current?.click()} disabled={reviewing} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-40">Import</button>
+              <button onClick={()=>setSharing(v=>!v)} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Share Link</button>
+              <input ref={fileInput} type="file" accept="application/json,.json,.yaml,.yml" className="hidden" onChange={(e)=>{ importFile(e.target.files?.[0]); e.target.value=""; }} />
+              <button onClick={()=>runExport("copy")} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Copy {exporter.label}</button>
+              <button onClick={()=>runExport("download")} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download {exporter.label}</button>
             </div>
           </div>
         </div>
-      </header>
-
-      <main className="mx-auto max-w-6xl px-4 py-5 space-y-5">
-        <Section title="Basic" defaultOpen hint="Name, language, description, instructions">
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-            <Input label="Name" value={name} onChange={setName} placeholder="e.g., EduAssess Pro" />
-            <Input label="Language (IETF tag)" value={language} onChange={setLanguage} placeholder="e.g., en, ur, en-GB" />
-            <div className="md:col-span-2">
-              <Input label="Short Description" value={description} onChange={setDescription} placeholder="One-line purpose" />
-            </div>
-            <div className="md:col-span-2">
-              <TextArea label="System Instructions" value={instructions} onChange={setInstructions} rows={8} placeholder="Define role, constraints, formatting rules, and tool-use strategy." />
+        {reviewing && (
+          <div className="border-t border-sky-100 bg-sky-50">
+            <div className="mx-auto flex max-w-6xl flex-col gap-2 px-4 py-2 text-sm text-sky-800 sm:flex-row sm:items-center sm:justify-between">
+              <span>Reviewing a shared config — read-only. Your workspace is unchanged.</span>
+              <div className="flex gap-2">
+                <button onClick={()=>keepSharedCopy(output)} className="rounded-xl border border-sky-300 bg-white px-3 py-1 text-sm hover:shadow active:scale-[0.98]">Save as Editable Copy</button>
+                <button onClick={closeReview} className="rounded-xl border border-sky-300 bg-white px-3 py-1 text-sm hover:shadow active:scale-[0.98]">Close Review</button>
+              </div>
             </div>
           </div>
-        </Section>
-
-        <Section title="Persona & Style" hint="Tone, emoji, response length">
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
-            <div>
-              <Label>Tone</Label>
-              <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={tone} onChange={(e)=>setTone(e.target.value)}>
-                <option value="casual">casual</option><option value="formal">formal</option><option value="technical">technical</option><option value="friendly">friendly</option><option value="playful">playful</option><option value="neutral">neutral</option>
-              </select>
-            </div>
-            <div>
-              <Label>Emoji Use</Label>
-              <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={emoji} onChange={(e)=>setEmoji(e.target.value)}>
-                <option value="none">none</option><option value="light">light</option><option value="moderate">moderate</option><option value="heavy">heavy</option>
-              </select>
-            </div>
-            <div>
-              <Label>Response Length</Label>
-              <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={lengthPref} onChange={(e)=>setLengthPref(e.target.value)}>
-                <option value="short">short</option><option value="medium">medium</option><option value="long">long</option>
-              </select>
+        )}
+        {errorCount > 0 && (
+          <div className="border-t border-red-100 bg-red-50">
+            <div className="mx-auto flex max-w-6xl flex-col gap-2 px-4 py-2 text-sm text-red-700 sm:flex-row sm:items-center sm:justify-between">
+              <span>{errorCount} validation error{errorCount === 1 ? "" : "s"} — export is blocked until fixed.</span>
+              <Toggle label="Export anyway" checked={exportAnyway} onChange={setExportAnyway} />
             </div>
           </div>
-        </Section>
-
-        <Section title="Built-in Tools & Custom Actions" hint="web, code, retrieval, image, vision + APIs">
-          <div className="flex flex-wrap gap-4">
-            <Toggle label="Web Browsing" checked={toolWeb} onChange={setToolWeb} />
-            <Toggle label="Code Interpreter" checked={toolCode} onChange={setToolCode} />
-            <Toggle label="Retrieval / RAG" checked={toolRetrieval} onChange={setToolRetrieval} />
-            <Toggle label="Image Generation" checked={toolImage} onChange={setToolImage} />
-            <Toggle label="Vision (image understanding)" checked={toolVision} onChange={setToolVision} />
-          </div>
+        )}
+      </header>
 
-          <div className="pt-4 space-y-3">
-            <h3 className="text-[14px] font-semibold">Custom Actions</h3>
-            <div className="grid grid-cols-1 gap-3 md:grid-cols-5">
-              <Input label="Name" value={actionDraft.name} onChange={(v)=>setActionDraft(a=>({...a,name:v}))} />
-              <div>
-                <Label>Type</Label>
-                <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={actionDraft.type} onChange={(e)=>setActionDraft(a=>({...a, type: e.target.value as CustomAction["type"]}))}>
-                  <option value="openapi">openapi</option><option value="json-rpc">json-rpc</option><option value="graphql">graphql</option><option value="webhook">webhook</option>
-                </select>
+      {secretGate && secrets.length > 0 && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={(e)=>{ if(e.target === e.currentTarget) setSecretGate(null); }}>
+          <SecretGate kind={secretGate} findings={secrets} onRedact={()=>runExport(secretGate, true)} onCancel={()=>setSecretGate(null)} />
+        </div>
+      )}
+
+      {sharing && (
+        <div className="mx-auto max-w-6xl px-4 pt-5">
+          <SharePanel config={output} onCopy={copyShareLink} onClose={()=>setSharing(false)} />
+        </div>
+      )}
+
+      <div className="mx-auto max-w-6xl px-4 py-5 lg:grid lg:grid-cols-[260px_minmax(0,1fr)] lg:items-start lg:gap-5">
+        {/* A disabled fieldset turns every control inside into read-only for review mode */}
+        <fieldset disabled={reviewing} className="contents">
+          <WorkspaceSidebar workspace={workspace} onSelect={selectEntry} onCreate={newEntry} onDuplicate={duplicate} onRename={rename} onDelete={remove} />
+          <main className="mt-5 space-y-5 lg:mt-0">
+            <Section title="Templates" hint="Start from a preset, save your own, set org safety defaults">
+              <TemplateGallery current={output} userTemplates={workspace.templates || []} orgSafety={workspace.orgSafety} onApply={applyTemplateConfig} onSave={saveTemplate}
+                onDelete={(id)=>setWorkspace(ws=>deleteTemplate(ws, id))} onOrgSafety={(p)=>setWorkspace(ws=>setOrgSafety(ws, p))} />
+            </Section>
+
+            <Section title="Import" defaultOpen={importIssues.length > 0 || importMigrations.length > 0} hint="Paste, choose a file, or drop JSON anywhere">
+              <div className="space-y-3">
+                <TextArea label="Paste config JSON" value={importText} onChange={setImportText} rows={5} placeholder='{ "schemaVersion": "1.0", "name": "…", … }' />
+                <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+                  <button onClick={()=>fileInput.current?.click()} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Choose File…</button>
+                  <button onClick={()=>importJSON(importText)} disabled={!importText.trim()} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-50">Load Pasted JSON</button>
+                </div>
+                {importMigrations.map((m,i)=>(
+                  <div key={i} className="text-xs text-gray-700">
+                    <p className="font-medium">Upgraded schema {m.from} → {m.to}</p>
+                    {m.changes.length > 0 && <ul className="list-disc pl-5">{m.changes.map((c,j)=>(<li key={j}>{c}</li>))}</ul>}
+                  </div>
+                ))}
+                <IssueList issues={importIssues} />
               </div>
-              <Input label="Spec URL or Inline" value={actionDraft.specUrlOrInline || ""} onChange={(v)=>setActionDraft(a=>({...a, specUrlOrInline:v}))} placeholder="https://... or raw spec" />
-              <div>
-                <Label>Auth</Label>
-                <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={actionDraft.auth?.type || "none"} onChange={(e)=>setActionDraft(a=>({...a, auth: { ...(a.auth||{}), type: e.target.value as any }}))}>
-                  <option value="none">none</option><option value="api_key">api_key</option><option value="oauth2">oauth2</option>
-                </select>
+            </Section>
+
+            <Section title="Basic" defaultOpen hint="Name, language, description, instructions, translations" issues={[...at("name"), ...at("language"), ...at("description"), ...at("instructions"), ...under("locales")]}>
+              <div className="mb-4 space-y-2">
+                <LocaleBar config={output} locale={activeLocale} onSelect={setLocale} onAdd={addLocale} onRemove={removeLocale} />
+                <IssueList issues={[...at("locales"), ...(translating ? at(`locales.${activeLocale}`) : [])]} withPaths={false} />
               </div>
-              <Input label="Auth Instructions (optional)" value={actionDraft.auth?.instructions || ""} onChange={(v)=>setActionDraft(a=>({...a, auth: { ...(a.auth||{ type: "none" }), instructions:v }}))} placeholder="Header, OAuth steps, etc." />
-            </div>
-            <div className="flex justify-end pt-1">
-              <button onClick={addAction} className="w-full sm:w-auto rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add Action</button>
-            </div>
-            <div className="flex flex-wrap gap-2">
-              {actions.map((a, i)=>(
-                <div key={i} className="flex items-center gap-2 rounded-2xl border border-gray-200 bg-gray-50 px-3 py-2 text-xs">
-                  <span className="font-medium">{a.name}</span>
-                  <span className="opacity-70">{a.type}</span>
-                  {a.specUrlOrInline && <span className="opacity-70">• spec</span>}
-                  <button onClick={()=>removeAction(i)} className="opacity-60 hover:opacity-100">Remove</button>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <Input label={translating ? `Name (${activeLocale})` : "Name"} {...textProps("name", "e.g., EduAssess Pro")} />
+                <Input label="Default Language (IETF tag)" value={cfg.language || ""} onChange={(v)=>dispatch({ type: "set", patch: { language: v } })} placeholder="e.g., en, ur, en-GB" issues={at("language")} />
+                <div className="md:col-span-2">
+                  <Input label={translating ? `Short Description (${activeLocale})` : "Short Description"} {...textProps("description", "One-line purpose")} />
                 </div>
-              ))}
-            </div>
-          </div>
-        </Section>
+                <div className="md:col-span-2">
+                  <TextArea label={translating ? `System Instructions (${activeLocale})` : "System Instructions"} rows={8} {...textProps("instructions", "Define role, constraints, formatting rules, and tool-use strategy.")} />
+                </div>
+              </div>
+            </Section>
 
-        <Section title="Knowledge / RAG" hint="Attach doc names (hints only)">
-          <div className="space-y-2">
-            <Toggle label="Enable knowledge retrieval" checked={knowledgeEnabled} onChange={setKnowledgeEnabled} />
-            {knowledgeEnabled && (
-              <div className="space-y-2">
-                <div className="flex flex-col sm:flex-row gap-2">
-                  <input className="flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="e.g., Pricing Deck v3.pdf" value={docDraft} onChange={(e)=>setDocDraft(e.target.value)} />
-                  <button onClick={addDoc} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add</button>
+            <Section title="Persona & Style" hint="Tone, emoji, response length">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <div>
+                  <Label>Tone</Label>
+                  <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={cfg.persona?.writingTone} onChange={(e)=>dispatch({ type: "persona", patch: { writingTone: e.target.value as NonNullable<PersonaStyle["writingTone"]> } })}>
+                    {WRITING_TONES.map(t=>(<option key={t} value={t}>{t}</option>))}
+                  </select>
                 </div>
-                <div className="flex flex-wrap gap-2">
-                  {knowledgeDocs.map((d,i)=>(<Pill key={i} text={d} onRemove={()=>removeDoc(i)} />))}
+                <div>
+                  <Label>Emoji Use</Label>
+                  <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={cfg.persona?.emojiUse} onChange={(e)=>dispatch({ type: "persona", patch: { emojiUse: e.target.value as NonNullable<PersonaStyle["emojiUse"]> } })}>
+                    {EMOJI_USES.map(t=>(<option key={t} value={t}>{t}</option>))}
+                  </select>
+                </div>
+                <div>
+                  <Label>Response Length</Label>
+                  <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={cfg.persona?.responseLength} onChange={(e)=>dispatch({ type: "persona", patch: { responseLength: e.target.value as NonNullable<PersonaStyle["responseLength"]> } })}>
+                    {RESPONSE_LENGTHS.map(t=>(<option key={t} value={t}>{t}</option>))}
+                  </select>
                 </div>
               </div>
-            )}
-          </div>
-        </Section>
-
-        <Section title="Memory & Safety" hint="Retention, PII, jailbreak">
-          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
-            <div className="space-y-3">
-              <Toggle label="Enable persistent memory" checked={memoryEnabled} onChange={setMemoryEnabled} />
-              {memoryEnabled && (
-                <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
-                  <div>
-                    <Label>Scope</Label>
-                    <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={memoryScope} onChange={(e)=>setMemoryScope(e.target.value)}>
-                      <option value="conversation">conversation</option>
-                      <option value="user">user</option>
-                    </select>
-                  </div>
-                  <Input label="Retention Days" value={retention} onChange={setRetention} type="number" inputMode="numeric" placeholder="e.g., 180" />
+            </Section>
+
+            <Section title="Built-in Tools & Custom Actions" hint="web, code, retrieval, image, vision + APIs" issues={under("customActions")}>
+              <div className="flex flex-wrap gap-4">
+                {BUILT_IN_TOOLS.map(t=>(<Toggle key={t} label={TOOL_LABELS[t]} checked={tools.includes(t)} onChange={(v)=>dispatch({ type: "tool", tool: t, enabled: v })} />))}
+              </div>
+
+              <div className="pt-4 space-y-3">
+                <h3 className="text-[14px] font-semibold">Custom Actions</h3>
+                <ActionsEditor actions={cfg.customActions || []} issues={under("customActions")}
+                  onAdd={(a)=>dispatch({ type: "add", list: "customActions", items: [a] })} onUpdate={(index, item)=>dispatch({ type: "update", list: "customActions", index, item })}
+                  onRemove={(index)=>dispatch({ type: "remove", list: "customActions", index })} onMove={(from, to)=>dispatch({ type: "move", list: "customActions", from, to })} />
+              </div>
+            </Section>
+
+            <Section title="Knowledge / RAG" hint="Attach txt, md, pdf or csv files, or add name-only hints" issues={under("knowledge")}>
+              <div className="space-y-2">
+                <Toggle label="Enable knowledge retrieval" checked={!!cfg.knowledge?.enabled} onChange={(v)=>dispatch({ type: "knowledge", patch: { enabled: v } })} />
+                {cfg.knowledge?.enabled && (
+                  <KnowledgePanel documents={cfg.knowledge.documents || []} texts={fileTexts} chunking={cfg.knowledge.chunking} issues={under("knowledge")} parseHints={(text)=>parseBulk("knowledge.documents", text) as string[]}
+                    onAttach={attachFiles} onAddHints={(items)=>dispatch({ type: "add", list: "knowledge.documents", items })} onUpdateHint={(index, item)=>dispatch({ type: "update", list: "knowledge.documents", index, item })}
+                    onRemove={(index)=>dispatch({ type: "remove", list: "knowledge.documents", index })} onMove={(from, to)=>dispatch({ type: "move", list: "knowledge.documents", from, to })}
+                    onChunking={(field, value)=>dispatch({ type: "chunking", field, value })} />
+                )}
+              </div>
+            </Section>
+
+            <Section title="Memory & Safety" hint="Retention, PII, jailbreak" issues={[...under("memory"), ...under("safety")]}>
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <div className="space-y-3">
+                  <Toggle label="Enable persistent memory" checked={!!cfg.memory?.enabled} onChange={(v)=>dispatch({ type: "memory", patch: { enabled: v } })} />
+                  {cfg.memory?.enabled && (
+                    <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                      <div>
+                        <Label>Scope</Label>
+                        <select className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" value={cfg.memory.scope} onChange={(e)=>dispatch({ type: "memory", patch: { scope: e.target.value as NonNullable<MemoryPolicy["scope"]> } })}>
+                          {MEMORY_SCOPES.map(t=>(<option key={t} value={t}>{t}</option>))}
+                        </select>
+                      </div>
+                      <NumberInput label="Retention Days" value={cfg.memory.dataRetentionDays} onChange={(v)=>dispatch({ type: "memory", patch: { dataRetentionDays: v } })} placeholder="e.g., 180" issues={at("memory.dataRetentionDays")} />
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-            <div className="space-y-3">
-              <Toggle label="Jailbreak defense" checked={jailbreakDefense} onChange={setJailbreakDefense} />
-              <Toggle label="Block disallowed content" checked={blockDisallowed} onChange={setBlockDisallowed} />
-              <Toggle label="PII redaction" checked={piiRedaction} onChange={setPiiRedaction} />
-              <div className="pt-2">
-                <div className="flex flex-col sm:flex-row gap-2">
-                  <input className="flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="Add custom disallowed phrase" value={phraseDraft} onChange={(e)=>setPhraseDraft(e.target.value)} />
-                  <button onClick={addPhrase} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add</button>
+                <div className="space-y-3">
+                  <Toggle label="Jailbreak defense" checked={!!cfg.safety?.jailbreakDefense} onChange={(v)=>dispatch({ type: "safety", patch: { jailbreakDefense: v } })} />
+                  <Toggle label="Block disallowed content" checked={!!cfg.safety?.blockDisallowedContent} onChange={(v)=>dispatch({ type: "safety", patch: { blockDisallowedContent: v } })} />
+                  <Toggle label="PII redaction" checked={!!cfg.safety?.piiRedaction} onChange={(v)=>dispatch({ type: "safety", patch: { piiRedaction: v } })} />
+                  <div className="pt-2">
+                    <StringListEditor items={cfg.safety?.customDisallowedPhrases || []} placeholder="Add custom disallowed phrase" bulkPlaceholder="One phrase per line" {...listProps("safety.customDisallowedPhrases")} />
+                    <div className="mt-2"><IssueList issues={under("safety").filter(i=>!/^safety\.customDisallowedPhrases\.\d+/.test(i.path))} withPaths={false} /></div>
+                  </div>
                 </div>
-                <div className="mt-2 flex flex-wrap gap-2">
-                  {customPhrases.map((p,i)=>(<Pill key={i} text={p} onRemove={()=>removePhrase(i)} />))}
+              </div>
+            </Section>
+
+            <Section title={`Policy & Risk (${policyReport.score}/100)`} defaultOpen={policyReport.level === "high"} hint="Rule-based safety lint and risk score">
+              <PolicyPanel report={policyReport} settings={workspace.policy || {}} onSettings={(p)=>setWorkspace(ws=>({ ...ws, policy: p }))} onDownload={downloadPolicyReport} />
+            </Section>
+
+            <Section title="Conversation Starters & Hints" hint={translating ? `Starters and sample Qs in ${activeLocale}, tags` : "Starters, sample Qs, tags"}
+              issues={[...under(localPath("conversationStarters")), ...under(localPath("sampleQuestions")), ...under("tags")]}>
+              {translating && <div className="mb-4"><LocaleBar config={output} locale={activeLocale} onSelect={setLocale} onAdd={addLocale} onRemove={removeLocale} /></div>}
+              <div dir={dir}>
+                {!overrides ? (
+                  <StartersEditor starters={cfg.conversationStarters || []} issues={under("conversationStarters")} parse={(text)=>parseBulk("conversationStarters", text)}
+                    onAdd={(items)=>dispatch({ type: "add", list: "conversationStarters", items })} onUpdate={(index, item)=>dispatch({ type: "update", list: "conversationStarters", index, item })}
+                    onRemove={(index)=>dispatch({ type: "remove", list: "conversationStarters", index })} onMove={(from, to)=>dispatch({ type: "move", list: "conversationStarters", from, to })} />
+                ) : !overrides.conversationStarters && untranslated.includes("conversationStarters") ? (
+                  <FallbackList what="starter" count={cfg.conversationStarters?.length || 0} base={baseLocale} onTranslate={()=>dispatch({ type: "localize", locale: activeLocale, patch: { conversationStarters: cfg.conversationStarters } })} />
+                ) : (
+                  // Issue paths are made relative to the locale so the editor finds them under conversationStarters.<i>
+                  <StartersEditor starters={overrides.conversationStarters || []} parse={(text)=>parseBulk("conversationStarters", text)} {...localeList(overrides.conversationStarters || [], "conversationStarters")}
+                    issues={under(localPath("conversationStarters")).map(i=>({ ...i, path: i.path.slice(`locales.${activeLocale}.`.length) }))} />
+                )}
+
+                <div className="pt-4">
+                  {!overrides ? (
+                    <StringListEditor items={cfg.sampleQuestions || []} placeholder="Sample question…" bulkPlaceholder="One question per line" {...listProps("sampleQuestions")} />
+                  ) : !overrides.sampleQuestions && untranslated.includes("sampleQuestions") ? (
+                    <FallbackList what="sample question" count={cfg.sampleQuestions?.length || 0} base={baseLocale} onTranslate={()=>dispatch({ type: "localize", locale: activeLocale, patch: { sampleQuestions: cfg.sampleQuestions } })} />
+                  ) : (
+                    <StringListEditor items={overrides.sampleQuestions || []} placeholder={`Sample question (${activeLocale})…`} bulkPlaceholder="One question per line" {...localeList(overrides.sampleQuestions || [], "sampleQuestions")}
+                      issuesAt={(i)=>under(`${localPath("sampleQuestions")}.${i}`)} parse={(text)=>parseBulk("sampleQuestions", text)} />
+                  )}
+                  <div className="mt-2"><IssueList issues={at(localPath("sampleQuestions"))} withPaths={false} /></div>
                 </div>
               </div>
-            </div>
-          </div>
-        </Section>
+              {overrides && (overrides.conversationStarters || overrides.sampleQuestions) && (
+                <div className="flex justify-end gap-3 pt-2 text-xs">
+                  {overrides.conversationStarters && <button onClick={()=>dispatch({ type: "localize", locale: activeLocale, patch: { conversationStarters: undefined } })} className="opacity-60 hover:opacity-100">Use {baseLocale} starters</button>}
+                  {overrides.sampleQuestions && <button onClick={()=>dispatch({ type: "localize", locale: activeLocale, patch: { sampleQuestions: undefined } })} className="opacity-60 hover:opacity-100">Use {baseLocale} sample questions</button>}
+                </div>
+              )}
 
-        <Section title="Conversation Starters & Hints" hint="Starters, sample Qs, tags">
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
-            <Input label="Starter Title" value={starterTitle} onChange={setStarterTitle} />
-            <Input label="Starter Prompt" value={starterPrompt} onChange={setStarterPrompt} />
-          </div>
-          <div className="flex justify-end">
-            <button onClick={addStarter} className="w-full sm:w-auto rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add Starter</button>
-          </div>
-          <div className="flex flex-wrap gap-2">
-            {starters.map((s,i)=>(
-              <div key={i} className="flex items-center gap-2 rounded-2xl border border-gray-200 bg-gray-50 px-3 py-2 text-xs">
-                <span className="font-medium">{s.title}</span>
-                <span className="opacity-70">— {s.prompt}</span>
-                <button onClick={()=>removeStarter(i)} className="opacity-60 hover:opacity-100">Remove</button>
+              <div className="pt-4">
+                {translating && <p className="mb-2 text-xs text-gray-500">Tags are shared by every locale.</p>}
+                <StringListEditor items={cfg.tags || []} placeholder="Add tag…" bulkPlaceholder="Tags, one per line or comma-separated" {...listProps("tags")} />
+                <div className="mt-2"><IssueList issues={at("tags")} withPaths={false} /></div>
               </div>
-            ))}
-          </div>
+            </Section>
 
-          <div className="pt-4">
-            <div className="flex flex-col sm:flex-row gap-2">
-              <input className="flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="Sample question…" value={sampleDraft} onChange={(e)=>setSampleDraft(e.target.value)} />
-              <button onClick={addSample} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add</button>
-            </div>
-            <div className="mt-2 flex flex-wrap gap-2">
-              {sampleQs.map((q,i)=>(<Pill key={i} text={q} onRemove={()=>removeSample(i)} />))}
-            </div>
-          </div>
+            <Section title="Compiled Prompt" hint={translating ? `What the model is told in ${activeLocale}, with token estimates` : "What the model is told, with token estimates"}>
+              <PromptPreview config={localized} budget={workspace.promptBudget ?? DEFAULT_PROMPT_BUDGET} onBudget={(n)=>setWorkspace(ws=>({ ...ws, promptBudget: n }))} />
+            </Section>
 
-          <div className="pt-4">
-            <div className="flex flex-col sm:flex-row gap-2">
-              <input className="flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="Add tag…" value={tagDraft} onChange={(e)=>setTagDraft(e.target.value)} />
-              <button onClick={addTag} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add</button>
-            </div>
-            <div className="mt-2 flex flex-wrap gap-2">
-              {tags.map((t,i)=>(<Pill key={i} text={t} onRemove={()=>removeTag(i)} />))}
-            </div>
-          </div>
-        </Section>
+            <Section title="Playground" hint={translating ? `Try the ${activeLocale} prompt against an OpenAI-compatible endpoint` : "Try the prompt against an OpenAI-compatible endpoint"}>
+              <PlaygroundPanel config={localized} settings={workspace.playground ?? DEFAULT_PLAYGROUND} onSettings={(p)=>setWorkspace(ws=>({ ...ws, playground: p }))}
+                runs={activeEntry?.transcripts || []} onSaveRun={saveRun} onDeleteRun={removeRun} onDownloadRuns={downloadRuns} />
+            </Section>
 
-        <Section title="Generated Schema (JSON)" defaultOpen hint="Live preview">
-          <div className="rounded-2xl border border-gray-200 bg-white">
-            <pre className="max-h-[50vh] overflow-auto p-4 text-[13px] leading-6">
-{JSON.stringify(output, null, 2)}
-            </pre>
-          </div>
-          <p className="mt-2 text-xs text-gray-500">Tip: Use “Copy JSON” or “Download JSON” above. Convert to YAML externally if needed.</p>
-        </Section>
-      </main>
+            <Section title="Snapshots & Diff" hint="Named versions, compare, restore">
+              <HistoryPanel current={output} snapshots={activeEntry?.snapshots || []} onSave={saveSnapshot} onRestore={restoreSnapshot} onDelete={removeSnapshot} />
+            </Section>
+
+            <Section title={`Generated Output (${exporter.label})`} defaultOpen hint="Live preview">
+              <div className="rounded-2xl border border-gray-200 bg-white">
+                <pre className="max-h-[50vh] overflow-auto p-4 text-[13px] leading-6">
+{exported.content}
+                </pre>
+              </div>
+              {exported.unsupported.length > 0 && (
+                <div className="mt-3 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+                  <p className="font-medium">Not represented in {exporter.label}:</p>
+                  <ul className="mt-1 list-disc pl-5 space-y-0.5">{exported.unsupported.map((u,i)=>(<li key={i}>{u}</li>))}</ul>
+                </div>
+              )}
+              <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <p className="text-xs text-gray-500">Tip: Pick a format in the header, then Copy or Download. JSON is the canonical schema (v{CURRENT_SCHEMA_VERSION}); other formats are derived from it.</p>
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  {configLocales(output).length > 1 && <button onClick={()=>runExport("locales")} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download per Locale (.zip)</button>}
+                  <button onClick={()=>runExport("bundle")} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download Bundle (.zip)</button>
+                  <button onClick={downloadSchema} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download JSON Schema</button>
+                </div>
+              </div>
+            </Section>
+          </main>
+        </fieldset>
+      </div>
 
       <div className="sticky bottom-0 z-30 border-t border-gray-200 bg-white/90 backdrop-blur px-4 py-2 sm:hidden">
         <div className="grid grid-cols-2 gap-2">
-          <button onClick={copyJSON} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Copy</button>
-          <button onClick={downloadJSON} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download</button>
+          <button onClick={()=>runExport("copy")} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Copy</button>
+          <button onClick={()=>runExport("download")} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download</button>
         </div>
       </div>
     </div>
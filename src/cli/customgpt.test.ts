@@ -0,0 +1,152 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { defaultConfig, parseYAML, toYAML } from "../core";
+
+// Runs the CLI the way `npm run cli` does, in its own process, so exit codes are the real ones
+const CLI = join(__dirname, "customgpt.ts");
+function cli(...args: string[]) {
+  const res = spawnSync(process.execPath, ["--import", "tsx", CLI, ...args], { encoding: "utf8", timeout: 60_000 });
+  return { code: res.status, stdout: res.stdout, stderr: res.stderr };
+}
+
+const dir = mkdtempSync(join(tmpdir(), "customgpt-cli-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function file(name: string, content: unknown) {
+  const path = join(dir, name);
+  writeFileSync(path, typeof content === "string" ? content : JSON.stringify(content, null, 2));
+  return path;
+}
+
+const valid = { ...defaultConfig, name: "Helper", createdAt: "2024-01-01T00:00:00.000Z" };
+// A secret pasted into the instructions is a warning, not an error
+const warned = { ...valid, instructions: "Call the API with password=hunter2hunter2." };
+const invalid = { ...valid, name: "" };
+// `extra` is ignored and the tone is dropped, so the canonical form would lose both
+const lossy = { ...valid, extra: true, persona: { ...valid.persona, writingTone: "grumpy" } };
+
+describe("validate", () => {
+  it("exits 0 when every file is valid", () => {
+    const res = cli("validate", file("valid.json", valid), file("valid.yaml", toYAML(valid)));
+    expect(res.code).toBe(0);
+    expect(res.stdout).toMatch(/2 files, 0 errors/);
+  });
+
+  it("exits 1 when any file has errors", () => {
+    expect(cli("validate", file("valid.json", valid), file("invalid.json", invalid)).code).toBe(1);
+    expect(cli("validate", file("broken.json", "{ not json")).code).toBe(1);
+  });
+
+  it("fails on warnings only with --strict", () => {
+    const path = file("warned.json", warned);
+    expect(cli("validate", path).code).toBe(0);
+    expect(cli("validate", path, "--strict").code).toBe(1);
+  });
+
+  it("reports per-file validity with --json", () => {
+    const res = cli("validate", file("valid.json", valid), file("invalid.json", invalid), "--json");
+    expect(res.code).toBe(1);
+    expect(JSON.parse(res.stdout).map((r: { valid: boolean }) => r.valid)).toEqual([true, false]);
+  });
+
+  it("exits 2 on usage errors", () => {
+    expect(cli("validate").code).toBe(2);
+    expect(cli("validate", join(dir, "missing.json")).code).toBe(2);
+    expect(cli("no-such-command").code).toBe(2);
+  });
+});
+
+describe("normalize", () => {
+  it("prints the canonical form and exits 0", () => {
+    const res = cli("normalize", file("valid.json", JSON.stringify(valid)));
+    expect(res.code).toBe(0);
+    expect(JSON.parse(res.stdout)).toEqual(valid);
+  });
+
+  it("rewrites files in place with --write, keeping their format", () => {
+    const yaml = file("valid.yaml", toYAML({ ...valid, schemaVersion: "1.0" }));
+    expect(cli("normalize", yaml, "--write").code).toBe(0);
+    const out = readFileSync(yaml, "utf8");
+    expect(out).toMatch(/^schemaVersion: "1\.4"\n/);
+    expect(parseYAML(out)).toEqual({ ...valid, updatedAt: valid.createdAt });
+  });
+
+  it("refuses to drop fields, leaving the file alone and exiting 1", () => {
+    const path = file("lossy.json", lossy);
+    const before = readFileSync(path, "utf8");
+    const res = cli("normalize", path, "--write");
+    expect(res.code).toBe(1);
+    expect(res.stderr).toMatch(/Unknown field "extra" ignored/);
+    expect(res.stderr).toMatch(/persona\.writingTone/);
+    expect(readFileSync(path, "utf8")).toBe(before);
+  });
+
+  it("still normalizes the other files, and prints nothing for the refused one", () => {
+    const res = cli("normalize", file("lossy.json", lossy), file("valid.json", valid));
+    expect(res.code).toBe(1);
+    expect(JSON.parse(res.stdout)).toEqual(valid);
+  });
+
+  it("drops them with --force", () => {
+    const path = file("lossy.json", lossy);
+    expect(cli("normalize", path, "--write", "--force").code).toBe(0);
+    const { extra, ...kept } = lossy;
+    expect(JSON.parse(readFileSync(path, "utf8"))).toEqual({ ...kept, persona: { emojiUse: "light", responseLength: "medium" } });
+  });
+
+  it("refuses configs with validation errors instead of clamping them", () => {
+    const bad = { ...valid, memory: { enabled: true, scope: "user", dataRetentionDays: -30.6 } };
+    const path = file("retention.json", bad);
+    const res = cli("normalize", path, "--write");
+    expect(res.code).toBe(1);
+    expect(res.stderr).toMatch(/memory\.dataRetentionDays/);
+    expect(JSON.parse(readFileSync(path, "utf8"))).toEqual(bad);
+    expect(cli("normalize", path, "--write", "--force").code).toBe(0);
+    expect(JSON.parse(readFileSync(path, "utf8")).memory.dataRetentionDays).toBe(-30.6);
+  });
+
+  it("exits 1 for unreadable configs, even with --force", () => {
+    expect(cli("normalize", file("broken.json", "{ not json"), "--force").code).toBe(1);
+  });
+
+  it("exits 2 without files", () => {
+    expect(cli("normalize").code).toBe(2);
+  });
+});
+
+describe("convert", () => {
+  it("writes one file per locale into --out, creating the directory", () => {
+    const out = join(dir, "dist", "locales");
+    const res = cli("convert", file("support.json", { ...valid, locales: { fr: { name: "Assistant" } } }), "--to", "json", "--locale", "all", "--out", out);
+    expect(res.code).toBe(0);
+    expect(readdirSync(out).sort()).toEqual(["support.en.json", "support.fr.json"]);
+    expect(JSON.parse(readFileSync(join(out, "support.fr.json"), "utf8"))).toMatchObject({ name: "Assistant", language: "fr" });
+  });
+});
+
+describe("prompt", () => {
+  it("exits 1 over the token budget and 2 for a bad budget", () => {
+    const path = file("prompt.json", valid);
+    expect(cli("prompt", path, "--budget", "2000").code).toBe(0);
+    const over = cli("prompt", path, "--budget", "5");
+    expect(over.code).toBe(1);
+    expect(over.stderr).toMatch(/over budget by ~\d+ tokens/);
+    expect(cli("prompt", path, "--budget", "-1").code).toBe(2);
+  });
+});
+
+describe("share", () => {
+  it("prints a link with secrets removed, warning when it is too long to send", () => {
+    const short = cli("share", file("share.json", warned), "--url", "https://gpt.example.com/");
+    expect(short.code).toBe(0);
+    expect(short.stdout).toMatch(/^https:\/\/gpt\.example\.com\/#review=z[\w-]+\n$/);
+    expect(short.stderr).toBe("removed or redacted: instructions\n");
+    const spec = Array.from({ length: 2000 }, (_, i) => ((i * 7919) % 10007).toString(36)).join(" ");
+    const long = cli("share", file("long.json", { ...valid, customActions: [{ name: "Big", type: "openapi", specUrlOrInline: spec }] }), "--url", "https://gpt.example.com/", "--mode", "copy");
+    expect(long.code).toBe(0);
+    expect(long.stderr).toMatch(/^warning: link is \d+ characters; some apps cut links off past 2000$/m);
+  });
+});
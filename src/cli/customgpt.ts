@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+/** customgpt: validate, convert, normalize and scaffold Custom GPT configs without a browser. */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import {
+  applyTemplate, buildConfig, compilePrompt, configJsonSchema, configLocales, countBySeverity, DEFAULT_PLAYGROUND, DEFAULT_PROMPT_BUDGET, exportConfig, getExporter, getTemplate,
+  encodeShare, exportLocales, redactSecrets, scanSecrets, secretIssues, lintPolicy, localizeConfig, resolveLocale, listExporters, normalizeConfig, parseConfig, RISK_SEVERITIES, runStarters, secretPaths, SHARE_LINK_WARN_LENGTH, SHARE_MODES, shareUrl,
+  stripSecrets, TEMPLATES, toYAML, validateConfig, type ShareMode,
+  type ConfigIssue, type CustomGPTConfig, type ParseResult, type PolicySettings, type RiskSeverity, type SafetyPolicy,
+} from "../core";
+
+const USAGE = `Usage: customgpt <command> [options]
+
+Commands:
+  validate <files...> [--strict] [--json]       Check configs; exits 1 on errors (or warnings with --strict)
+  lint <files...> [--rules <file>] [--fail-on <low|medium|high>] [--json]
+                                                Policy lint with a 0–100 risk score; exits 1 when a finding is at
+                                                or above --fail-on (default high). --rules takes a JSON PolicySettings
+  convert <file> --to <format> [--out <path>] [--locale <tag|all>] [--redact-secrets]
+                                                Convert a config; refuses invalid configs unless --force, and
+                                                configs holding key/token/password-like values unless
+                                                --redact-secrets (which replaces them with [REDACTED]). --locale
+                                                exports one translation; "all" writes <name>.<locale>.<ext> per
+                                                locale into --out (a directory; default: next to <file>)
+  normalize <files...> [--write] [--force]      Print configs in canonical form, or rewrite them in place; skips
+                                                (exit 1) files with parse issues or validation errors unless --force
+  new [--template <id>] [--name <name>] [--org-safety <file>] [--out <path>]
+                                                Start a new config from a template (default: blank), with
+                                                org safety defaults (a JSON safety policy) layered on top
+  prompt <file> [--budget <tokens>] [--out <path>]
+                                                Print the compiled system prompt; token estimates per section go
+                                                to stderr, and the exit code is 1 when over budget
+  play <file> [--base-url <url>] [--model <name>] [--temperature <n>] [--out <path>]
+                                                Send every conversation starter to an OpenAI-compatible endpoint and
+                                                save the transcripts (default: <file>.transcripts.json); the API key
+                                                is read from OPENAI_API_KEY; exits 1 if any request failed
+  share <file> --url <app-url> [--mode <review|copy>] [--keep-secrets]
+                                                Print a link that opens the config in the editor (default: review);
+                                                auth instructions and secret-looking values are removed
+                                                unless --keep-secrets
+  schema [--out <path>]                         Print the JSON Schema for configs
+  formats                                       List export formats for convert --to
+  templates                                     List templates for new --template
+
+Config files may be JSON or YAML.`;
+
+class CliError extends Error {
+  constructor(message: string, public exitCode = 2) { super(message); this.name = "CliError"; }
+}
+
+type Args = { positional: string[]; flags: Record<string, string | true> };
+
+/** `--flag value`, `--flag=value` and bare boolean `--flag`. Boolean flags must be listed so they don't swallow the next argument. */
+function parseArgs(argv: string[], booleans: string[]): Args {
+  const args: Args = { positional: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) { args.positional.push(a); continue; }
+    const [key, inline] = a.slice(2).split(/=(.*)/s, 2);
+    if (inline !== undefined) args.flags[key] = inline;
+    else if (booleans.includes(key)) args.flags[key] = true;
+    else if (i + 1 < argv.length) args.flags[key] = argv[++i];
+    else throw new CliError(`--${key} needs a value`);
+  }
+  return args;
+}
+
+function flag(args: Args, key: string) { const v = args.flags[key]; return typeof v === "string" ? v : undefined; }
+
+function read(path: string) {
+  try { return readFileSync(path, "utf8"); }
+  catch (e) { throw new CliError(`cannot read ${path}: ${(e as NodeJS.ErrnoException).code ?? (e as Error).message}`); }
+}
+
+function write(path: string | undefined, content: string) {
+  if (path) writeFileSync(path, content);
+  else process.stdout.write(content.endsWith("\n") ? content : content + "\n");
+}
+
+function isYAMLPath(path: string) { return /^\.ya?ml$/i.test(extname(path)); }
+
+/** Parse and validate one file; parse issues come first, secret scan hits last. */
+function check(path: string): ParseResult & { all: ConfigIssue[] } {
+  const parsed = parseConfig(read(path));
+  return { ...parsed, all: parsed.config ? [...parsed.issues, ...validateConfig(parsed.config), ...secretIssues(scanSecrets(parsed.config))] : parsed.issues };
+}
+
+/** Reads a JSON settings object (org safety policy, lint rules); its shape is trusted beyond being an object. */
+function readJSONObject<T>(path: string, what: string): T {
+  let v: unknown;
+  try { v = JSON.parse(read(path)); }
+  catch (e) { throw e instanceof CliError ? e : new CliError(`${path}: invalid JSON: ${(e as Error).message}`); }
+  if (typeof v !== "object" || v === null || Array.isArray(v)) throw new CliError(`${path}: expected ${what} object`);
+  return v as T;
+}
+
+function formatIssue(i: ConfigIssue) { return `  ${i.severity.padEnd(7)} ${i.path || "(document)"}  ${i.message}`; }
+
+function serialize(cfg: CustomGPTConfig, yaml: boolean) { return yaml ? toYAML(cfg) : JSON.stringify(cfg, null, 2) + "\n"; }
+
+const commands: Record<string, (argv: string[]) => number | Promise<number>> = {
+  validate(argv) {
+    const args = parseArgs(argv, ["strict", "json"]);
+    if (!args.positional.length) throw new CliError("validate needs at least one file");
+    const strict = !!args.flags.strict;
+    let failed = 0, errors = 0, warnings = 0;
+    const report = args.positional.map(file => {
+      const res = check(file);
+      const counts = countBySeverity(res.all);
+      errors += counts.errors; warnings += counts.warnings;
+      const valid = !!res.config && counts.errors === 0 && (!strict || counts.warnings === 0);
+      if (!valid) failed++;
+      return { file, valid, migrations: res.migrations, issues: res.all };
+    });
+    if (args.flags.json) write(undefined, JSON.stringify(report, null, 2));
+    else {
+      for (const r of report) {
+        console.log(`${r.file}: ${r.valid ? "ok" : "invalid"}${r.migrations.length ? ` (upgraded from ${r.migrations[0].from})` : ""}`);
+        r.issues.forEach(i => console.log(formatIssue(i)));
+      }
+      console.log(`${report.length} file${report.length === 1 ? "" : "s"}, ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}`);
+    }
+    return failed ? 1 : 0;
+  },
+
+  lint(argv) {
+    const args = parseArgs(argv, ["json"]);
+    if (!args.positional.length) throw new CliError("lint needs at least one file");
+    const rulesFile = flag(args, "rules");
+    const settings = rulesFile ? readJSONObject<PolicySettings>(rulesFile, "a policy settings") : {};
+    const failOn = (flag(args, "fail-on") ?? "high") as RiskSeverity;
+    if (!RISK_SEVERITIES.includes(failOn)) throw new CliError(`--fail-on must be one of: ${RISK_SEVERITIES.join(", ")}`);
+    const threshold = RISK_SEVERITIES.indexOf(failOn);
+    let failed = 0;
+    const reports = args.positional.map(file => {
+      const res = parseConfig(read(file));
+      if (!res.config) { console.error(`${file}:`); res.issues.forEach(i => console.error(formatIssue(i))); failed++; return null; }
+      const report = lintPolicy(res.config, settings);
+      if (report.findings.some(f => RISK_SEVERITIES.indexOf(f.severity) >= threshold)) failed++;
+      return { file, ...report };
+    }).filter(r => r !== null);
+    if (args.flags.json) write(undefined, JSON.stringify(reports, null, 2));
+    else for (const r of reports) {
+      console.log(`${r.file}: risk ${r.score}/100 (${r.level})`);
+      r.findings.forEach(f => console.log(`  ${f.severity.padEnd(7)} ${f.path}  ${f.message} [${f.rule}]`));
+    }
+    return failed ? 1 : 0;
+  },
+
+  convert(argv) {
+    const args = parseArgs(argv, ["force", "redact-secrets"]);
+    const [file] = args.positional;
+    const to = flag(args, "to");
+    if (!file || !to) throw new CliError("convert needs <file> and --to <format>");
+    if (!getExporter(to)) throw new CliError(`unknown format "${to}"; run "customgpt formats"`);
+    const res = check(file);
+    if (!res.config) { res.all.forEach(i => console.error(formatIssue(i))); return 1; }
+    const { errors } = countBySeverity(res.all);
+    if (errors && !args.flags.force) {
+      console.error(`${file}: ${errors} validation error${errors === 1 ? "" : "s"}; fix them or pass --force`);
+      res.all.filter(i => i.severity === "error").forEach(i => console.error(formatIssue(i)));
+      return 1;
+    }
+    const secrets = scanSecrets(res.config);
+    if (secrets.length && !args.flags["redact-secrets"]) {
+      console.error(`${file}: ${secrets.length} secret-looking value${secrets.length === 1 ? "" : "s"}; reference secrets by name, or pass --redact-secrets`);
+      secrets.forEach(f => console.error(`  ${f.path}  ${f.kind}: ${f.preview}`));
+      return 1;
+    }
+    if (secrets.length) { console.error(`note: redacted ${secrets.length} secret-looking value${secrets.length === 1 ? "" : "s"}`); res.config = redactSecrets(res.config); }
+    const locale = flag(args, "locale");
+    if (locale === "all") {
+      const dir = flag(args, "out") ?? dirname(file);
+      mkdirSync(dir, { recursive: true });
+      for (const f of exportLocales(res.config, to, basename(file, extname(file)))) {
+        f.result.unsupported.forEach(u => console.error(`note: ${f.locale}: not represented in ${to}: ${u}`));
+        writeFileSync(join(dir, f.fileName), f.result.content);
+        console.error(`wrote ${join(dir, f.fileName)}`);
+      }
+      return 0;
+    }
+    if (locale && !resolveLocale(res.config, locale).length && !configLocales(res.config).includes(locale)) {
+      console.error(`note: ${file} has no ${locale} translation; using the ${configLocales(res.config)[0]} text`);
+    }
+    const out = exportConfig(locale ? localizeConfig(res.config, locale) : res.config, to);
+    out.unsupported.forEach(u => console.error(`note: not represented in ${to}: ${u}`));
+    write(flag(args, "out"), out.content);
+    return 0;
+  },
+
+  normalize(argv) {
+    const args = parseArgs(argv, ["write", "force"]);
+    if (!args.positional.length) throw new CliError("normalize needs at least one file");
+    let failed = 0;
+    for (const file of args.positional) {
+      const res = parseConfig(read(file));
+      // Parse issues mean a field was dropped or replaced; validation errors mean a value is out of range. Neither is formatting
+      const problems = res.config ? [...res.issues, ...validateConfig(res.config).filter(i => i.severity === "error")] : res.issues;
+      if (problems.length) { console.error(`${file}:`); problems.forEach(i => console.error(formatIssue(i))); }
+      if (!res.config) { failed++; continue; }
+      if (problems.length && !args.flags.force) {
+        console.error(`${file}: not normalized; fix the fields above, or pass --force to write the canonical form anyway`);
+        failed++;
+        continue;
+      }
+      const content = serialize(normalizeConfig(res.config), isYAMLPath(file));
+      if (args.flags.write) { writeFileSync(file, content); console.error(`normalized ${file}`); }
+      else write(undefined, content);
+    }
+    return failed ? 1 : 0;
+  },
+
+  new(argv) {
+    const args = parseArgs(argv, []);
+    const id = flag(args, "template") ?? "blank";
+    const template = getTemplate(id);
+    if (!template) throw new CliError(`unknown template "${id}"; run "customgpt templates"`);
+    const now = new Date().toISOString();
+    const orgFile = flag(args, "org-safety");
+    const name = flag(args, "name");
+    const base = buildConfig({ ...(name && { name }), createdAt: now, updatedAt: now });
+    const cfg = applyTemplate(base, template, "replace", orgFile ? readJSONObject<SafetyPolicy>(orgFile, "a safety policy") : undefined);
+    const out = flag(args, "out");
+    write(out, serialize(cfg, !!out && isYAMLPath(out)));
+    return 0;
+  },
+
+  prompt(argv) {
+    const args = parseArgs(argv, []);
+    const [file] = args.positional;
+    if (!file) throw new CliError("prompt needs <file>");
+    const budgetFlag = flag(args, "budget");
+    const budget = budgetFlag === undefined ? DEFAULT_PROMPT_BUDGET : Number(budgetFlag);
+    if (!Number.isInteger(budget) || budget <= 0) throw new CliError("--budget must be a positive whole number");
+    const res = parseConfig(read(file));
+    if (!res.config) { res.issues.forEach(i => console.error(formatIssue(i))); return 1; }
+    const compiled = compilePrompt(res.config);
+    write(flag(args, "out"), compiled.text);
+    for (const s of compiled.sections) console.error(`${s.title.padEnd(20)} ~${s.tokens} tokens`);
+    console.error(`${"Total".padEnd(20)} ~${compiled.tokens} of ${budget} tokens`);
+    if (compiled.tokens <= budget) return 0;
+    console.error(`over budget by ~${compiled.tokens - budget} tokens`);
+    return 1;
+  },
+
+  async play(argv) {
+    const args = parseArgs(argv, []);
+    const [file] = args.positional;
+    if (!file) throw new CliError("play needs <file>");
+    const temperatureFlag = flag(args, "temperature");
+    const temperature = temperatureFlag === undefined ? DEFAULT_PLAYGROUND.temperature : Number(temperatureFlag);
+    if (temperature !== undefined && !Number.isFinite(temperature)) throw new CliError("--temperature must be a number");
+    const settings = { baseUrl: flag(args, "base-url") ?? DEFAULT_PLAYGROUND.baseUrl, model: flag(args, "model") ?? DEFAULT_PLAYGROUND.model, temperature };
+    const res = parseConfig(read(file));
+    if (!res.config) { res.issues.forEach(i => console.error(formatIssue(i))); return 1; }
+    if (!res.config.conversationStarters?.length) throw new CliError(`${file} has no conversation starters`, 1);
+    const run = await runStarters(res.config, settings, {
+      apiKey: process.env.OPENAI_API_KEY || undefined,
+      onProgress: (done, total, t) => console.error(`[${done}/${total}] ${t.title}: ${t.error ? `failed: ${t.error}` : `${(t.durationMs / 1000).toFixed(1)}s`}`),
+    });
+    const out = flag(args, "out") ?? join(dirname(file), `${basename(file, extname(file))}.transcripts.json`);
+    write(out, JSON.stringify(run, null, 2) + "\n");
+    console.error(`wrote ${out}`);
+    return run.transcripts.some(t => t.error) ? 1 : 0;
+  },
+
+  async share(argv) {
+    const args = parseArgs(argv, ["keep-secrets"]);
+    const [file] = args.positional;
+    const url = flag(args, "url");
+    if (!file || !url) throw new CliError("share needs <file> and --url");
+    const mode = (flag(args, "mode") ?? "review") as ShareMode;
+    if (!SHARE_MODES.includes(mode)) throw new CliError(`--mode must be one of ${SHARE_MODES.join(", ")}`);
+    const res = parseConfig(read(file));
+    if (!res.config) { res.issues.forEach(i => console.error(formatIssue(i))); return 1; }
+    const keep = !!args.flags["keep-secrets"];
+    const secrets = secretPaths(res.config);
+    if (secrets.length) console.error(`${keep ? "keeping" : "removed or redacted"}: ${secrets.join(", ")}`);
+    const link = shareUrl(url, mode, await encodeShare(keep ? res.config : stripSecrets(res.config)));
+    write(undefined, link);
+    if (link.length > SHARE_LINK_WARN_LENGTH) console.error(`warning: link is ${link.length} characters; some apps cut links off past ${SHARE_LINK_WARN_LENGTH}`);
+    return 0;
+  },
+
+  schema(argv) {
+    write(flag(parseArgs(argv, []), "out"), JSON.stringify(configJsonSchema, null, 2));
+    return 0;
+  },
+
+  formats() {
+    for (const e of listExporters()) console.log(`${e.id.padEnd(18)} ${e.label} (.${e.extension})`);
+    return 0;
+  },
+
+  templates() {
+    for (const t of TEMPLATES) console.log(`${t.id.padEnd(18)} ${t.description}`);
+    return 0;
+  },
+};
+
+async function main(argv: string[]) {
+  const [command, ...rest] = argv;
+  if (!command || command === "help" || command === "--help" || command === "-h") { console.log(USAGE); return 0; }
+  const run = commands[command];
+  if (!run) throw new CliError(`unknown command "${command}"\n\n${USAGE}`);
+  return run(rest);
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; }, (e) => {
+  console.error(`customgpt: ${(e as Error).message}`);
+  process.exitCode = e instanceof CliError ? e.exitCode : 1;
+});
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from "react";
+import {
+  ACTION_TYPES, API_KEY_LOCATIONS, AUTH_TYPES, inspectActionSpec, issuesUnder, looksLikeUrl,
+  type ActionAuth, type ApiKeyAuth, type ConfigIssue, type CustomAction, type OAuth2Auth,
+} from "../core";
+import { SortableList } from "./ListEditor";
+import { SpecSummary } from "./SpecSummary";
+import { fieldBorder, Input, IssueList, Label, NumberInput, TextArea, Toggle } from "./ui";
+
+const selectClass = "mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+const EMPTY_ACTION: CustomAction = { name: "", type: "openapi", specUrlOrInline: "" };
+
+/** Structured settings for the chosen auth type. Secrets are referenced by name and supplied where the GPT is deployed */
+function AuthFields({ auth, onChange, issues }:{ auth: ActionAuth; onChange: (a: ActionAuth)=>void; issues: ConfigIssue[]; }){
+  const [scopes, setScopes] = useState((auth.oauth2?.scopes || []).join(" "));
+  const at = (suffix: string) => issues.filter(i=>i.path.endsWith(suffix));
+  const refHint = <p className="text-xs text-gray-500 md:col-span-3">Secret references are names like SUPPORT_API_KEY, set where the GPT is deployed. Never paste the key, token or password itself.</p>;
+
+  if (auth.type === "api_key") {
+    const k: ApiKeyAuth = auth.apiKey ?? { in: "header", name: "" };
+    const set = (patch: Partial<ApiKeyAuth>)=>onChange({ ...auth, apiKey: { ...k, ...patch } });
+    return (
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div>
+          <Label>Key Location</Label>
+          <select className={selectClass} value={k.in} onChange={(e)=>set({ in: e.target.value as ApiKeyAuth["in"] })}>
+            {API_KEY_LOCATIONS.map(l=>(<option key={l} value={l}>{l}</option>))}
+          </select>
+          <IssueList issues={at(".apiKey.in")} withPaths={false} />
+        </div>
+        <Input label={k.in === "header" ? "Header Name" : "Query Parameter"} value={k.name} onChange={(v)=>set({ name: v })} placeholder={k.in === "header" ? "X-API-Key" : "api_key"} issues={at(".apiKey.name")} />
+        <Input label="Secret Reference" value={k.secretRef || ""} onChange={(v)=>set({ secretRef: v || undefined })} placeholder="SUPPORT_API_KEY" issues={at(".apiKey.secretRef")} />
+        {refHint}
+      </div>
+    );
+  }
+  if (auth.type === "oauth2") {
+    const o: OAuth2Auth = auth.oauth2 ?? { authorizationUrl: "", tokenUrl: "" };
+    const set = (patch: Partial<OAuth2Auth>)=>onChange({ ...auth, oauth2: { ...o, ...patch } });
+    return (
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <Input label="Authorization URL" value={o.authorizationUrl} onChange={(v)=>set({ authorizationUrl: v })} placeholder="https://auth.example.com/authorize" issues={at(".oauth2.authorizationUrl")} />
+        <Input label="Token URL" value={o.tokenUrl} onChange={(v)=>set({ tokenUrl: v })} placeholder="https://auth.example.com/token" issues={at(".oauth2.tokenUrl")} />
+        <Input label="Scopes (space-separated)" value={scopes} placeholder="read write" issues={issues.filter(i=>i.path.includes(".oauth2.scopes"))}
+          onChange={(v)=>{ setScopes(v); const list = v.split(/[\s,]+/).filter(Boolean); set({ scopes: list.length ? list : undefined }); }} />
+        <Input label="Client ID Reference" value={o.clientIdRef || ""} onChange={(v)=>set({ clientIdRef: v || undefined })} placeholder="SUPPORT_CLIENT_ID" issues={at(".oauth2.clientIdRef")} />
+        <Input label="Client Secret Reference" value={o.clientSecretRef || ""} onChange={(v)=>set({ clientSecretRef: v || undefined })} placeholder="SUPPORT_CLIENT_SECRET" issues={at(".oauth2.clientSecretRef")} />
+        <div className="flex flex-col justify-end gap-1 pb-3">
+          <Toggle label="Use PKCE" checked={!!o.pkce} onChange={(v)=>set({ pkce: v })} />
+          <IssueList issues={at(".oauth2.pkce")} withPaths={false} />
+        </div>
+        {refHint}
+      </div>
+    );
+  }
+  return null;
+}
+
+/** Every field of a custom action; used both to add a new action and to edit one in place */
+export function ActionForm({ initial = EMPTY_ACTION, submitLabel, onSubmit, onCancel, issues = [] }:
+  { initial?: CustomAction; submitLabel: string; onSubmit: (a: CustomAction)=>void; onCancel?: ()=>void; issues?: ConfigIssue[]; }){
+  const [draft, setDraft] = useState<CustomAction>(initial);
+  const [domains, setDomains] = useState((initial.allowedDomains || []).join(", "));
+  const spec = useMemo(()=>inspectActionSpec(draft), [draft]);
+
+  function submit(){
+    if(!draft.name.trim()) return;
+    // Hosts declared by an inline spec's servers are allowed automatically
+    const allowed = [...domains.split(","), ...(spec?.hosts || [])].map(d=>d.trim().toLowerCase()).filter(Boolean);
+    const action: CustomAction = { ...draft, name: draft.name.trim() };
+    if (!action.description?.trim()) delete action.description;
+    if (action.rateLimitPerMinute === undefined) delete action.rateLimitPerMinute;
+    if (allowed.length) action.allowedDomains = [...new Set(allowed)]; else delete action.allowedDomains;
+    // Only the settings for the chosen auth type are kept; an API key without a name is dropped
+    if (action.auth) {
+      const { apiKey, oauth2, ...auth } = action.auth;
+      action.auth = { ...auth, ...(auth.type === "api_key" && apiKey?.name.trim() && { apiKey }), ...(auth.type === "oauth2" && oauth2 && { oauth2 }) };
+    }
+    onSubmit(action);
+    if (!onCancel) { setDraft(EMPTY_ACTION); setDomains(""); }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-5">
+        <Input label="Name" value={draft.name} onChange={(v)=>setDraft(a=>({...a,name:v}))} issues={issues.filter(i=>i.path.endsWith(".name"))} />
+        <div>
+          <Label>Type</Label>
+          <select className={selectClass} value={draft.type} onChange={(e)=>setDraft(a=>({...a, type: e.target.value as CustomAction["type"]}))}>
+            {ACTION_TYPES.map(t=>(<option key={t} value={t}>{t}</option>))}
+          </select>
+        </div>
+        <div>
+          <Label>Auth</Label>
+          <select className={selectClass} value={draft.auth?.type || "none"} onChange={(e)=>setDraft(a=>({...a, auth: { ...(a.auth||{}), type: e.target.value as NonNullable<CustomAction["auth"]>["type"] }}))}>
+            {AUTH_TYPES.map(t=>(<option key={t} value={t}>{t}</option>))}
+          </select>
+        </div>
+        <Input label="Auth Instructions (optional)" value={draft.auth?.instructions || ""} onChange={(v)=>setDraft(a=>({...a, auth: { ...(a.auth||{ type: "none" }), instructions:v }}))} placeholder="Setup notes; never paste keys here" issues={issues.filter(i=>i.path.endsWith(".auth.instructions"))} />
+        <NumberInput label="Rate Limit / min (optional)" value={draft.rateLimitPerMinute} onChange={(v)=>setDraft(a=>({...a, rateLimitPerMinute: v}))} placeholder="e.g., 60" issues={issues.filter(i=>i.path.endsWith(".rateLimitPerMinute"))} />
+        {draft.auth && draft.auth.type !== "none" && (
+          <div className="md:col-span-5">
+            <AuthFields auth={draft.auth} onChange={(auth)=>setDraft(a=>({ ...a, auth }))} issues={issues.filter(i=>i.path.includes(".auth."))} />
+          </div>
+        )}
+        <div className="md:col-span-3">
+          <Input label="Description (optional)" value={draft.description || ""} onChange={(v)=>setDraft(a=>({...a, description:v}))} placeholder="What the model should use this action for" />
+        </div>
+        <div className="md:col-span-2">
+          <Input label="Allowed Domains (comma-separated)" value={domains} onChange={setDomains} placeholder="api.example.com" />
+        </div>
+        <div className="md:col-span-5">
+          <TextArea label="Spec URL or Inline" value={draft.specUrlOrInline || ""} onChange={(v)=>setDraft(a=>({...a, specUrlOrInline:v}))} rows={draft.specUrlOrInline?.includes("\n") ? 8 : 2} placeholder="https://... or paste an OpenAPI (JSON/YAML) or GraphQL SDL spec" />
+        </div>
+      </div>
+      {spec && <SpecSummary report={spec} authType={draft.auth?.type || "none"} />}
+      <div className="flex flex-col gap-2 pt-1 sm:flex-row sm:justify-end">
+        {onCancel && <button onClick={onCancel} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Cancel</button>}
+        <button onClick={submit} disabled={!draft.name.trim()} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-50">{submitLabel}</button>
+      </div>
+    </div>
+  );
+}
+
+/** The add form, then each action as a reorderable row that expands to its spec summary or opens for editing */
+export function ActionsEditor({ actions, issues, onAdd, onUpdate, onRemove, onMove }:
+  { actions: CustomAction[]; issues: ConfigIssue[]; onAdd: (a: CustomAction)=>void; onUpdate: (i: number, a: CustomAction)=>void; onRemove: (i: number)=>void; onMove: (from: number, to: number)=>void; }){
+  const [editing, setEditing] = useState<number | null>(null);
+  const specs = useMemo(()=>actions.map(inspectActionSpec), [actions]);
+  const at = (i: number) => issuesUnder(issues, `customActions.${i}`);
+
+  return (
+    <div className="space-y-3">
+      <ActionForm submitLabel="Add Action" onSubmit={onAdd} />
+      <SortableList items={actions} label={(a)=>a.name} rowClassName={(_, i)=>`${fieldBorder(at(i))} bg-gray-50`}
+        onMove={(from, to)=>{ if (editing === from) setEditing(to); else if (editing !== null) setEditing(null); onMove(from, to); }}>
+        {(a, i)=>{
+          if (editing === i) return (
+            <ActionForm key={`edit-${i}`} initial={a} submitLabel="Save Action" issues={at(i)} onCancel={()=>setEditing(null)} onSubmit={(next)=>{ onUpdate(i, next); setEditing(null); }} />
+          );
+          const spec = specs[i];
+          return (
+            <details>
+              <summary className="flex cursor-pointer list-none flex-wrap items-center gap-2">
+                <span className="font-medium">{a.name}</span>
+                <span className="opacity-70">{a.type}</span>
+                <span className="opacity-70">auth: {a.auth?.type || "none"}{a.auth?.type === "api_key" && a.auth.apiKey && ` (${a.auth.apiKey.in} ${a.auth.apiKey.name})`}</span>
+                {spec && !spec.error && <span className="opacity-70">• {spec.operations.length} operation{spec.operations.length === 1 ? "" : "s"}</span>}
+                {spec?.error && <span className="text-red-600">• spec error</span>}
+                {!spec && a.specUrlOrInline && <span className="opacity-70">• spec</span>}
+                <span className="ml-auto flex gap-3">
+                  <button onClick={(e)=>{ e.preventDefault(); setEditing(i); }} className="opacity-60 hover:opacity-100">Edit</button>
+                  <button onClick={(e)=>{ e.preventDefault(); if (editing !== null && editing > i) setEditing(editing - 1); onRemove(i); }} className="opacity-60 hover:opacity-100">Remove</button>
+                </span>
+              </summary>
+              <div className="mt-2 space-y-1 text-gray-700">
+                {a.description && <p>{a.description}</p>}
+                {a.rateLimitPerMinute !== undefined && <p>Rate limit: {a.rateLimitPerMinute}/min</p>}
+                {a.allowedDomains?.length ? <p>Allowed domains: {a.allowedDomains.join(", ")}</p> : null}
+                {a.specUrlOrInline && looksLikeUrl(a.specUrlOrInline) && <p className="break-all">Spec: {a.specUrlOrInline}</p>}
+                {spec && <SpecSummary report={spec} authType={a.auth?.type || "none"} />}
+              </div>
+            </details>
+          );
+        }}
+      </SortableList>
+      <IssueList issues={issues} />
+    </div>
+  );
+}
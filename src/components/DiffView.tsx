@@ -0,0 +1,50 @@
+import React from "react";
+import type { ConfigDiff, FieldChange } from "../core";
+
+function show(v: unknown) {
+  if (v === undefined) return "";
+  const s = typeof v === "string" ? v : JSON.stringify(v);
+  return s.length > 120 ? `${s.slice(0, 117)}…` : s;
+}
+
+const KIND_STYLE: Record<FieldChange["kind"], string> = {
+  added: "text-green-700",
+  removed: "text-red-700",
+  changed: "text-amber-700",
+};
+
+/** Field changes (actions added/removed by name) followed by a line diff of the instructions */
+export function DiffView({ diff }:{ diff: ConfigDiff }){
+  if (!diff.changes.length && !diff.instructions.length) return <p className="text-xs text-gray-500">No differences.</p>;
+  return (
+    <div className="space-y-3 text-xs">
+      {diff.changes.length > 0 && (
+        <table className="w-full text-left">
+          <thead className="text-gray-500"><tr><th className="pr-3 font-medium">Field</th><th className="pr-3 font-medium">Change</th><th className="pr-3 font-medium">Before</th><th className="font-medium">After</th></tr></thead>
+          <tbody>
+            {diff.changes.map((c,i)=>(
+              <tr key={i} className="align-top">
+                <td className="pr-3 font-mono break-all">{c.path}</td>
+                <td className={`pr-3 ${KIND_STYLE[c.kind]}`}>{c.kind}</td>
+                <td className="pr-3 break-all text-gray-600">{show(c.before)}</td>
+                <td className="break-all text-gray-900">{show(c.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {diff.instructions.length > 0 && (
+        <div>
+          <p className="mb-1 font-medium">instructions</p>
+          <pre className="max-h-80 overflow-auto rounded-2xl border border-gray-200 bg-white p-3 text-[12px] leading-5">
+            {diff.instructions.map((l,i)=>(
+              <div key={i} className={l.op === "add" ? "bg-green-50 text-green-800" : l.op === "del" ? "bg-red-50 text-red-800" : "text-gray-600"}>
+                {l.op === "add" ? "+ " : l.op === "del" ? "- " : "  "}{l.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
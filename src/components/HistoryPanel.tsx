@@ -0,0 +1,78 @@
+import React, { useMemo, useRef, useState } from "react";
+import { diffConfigs, parseConfig, type CustomGPTConfig } from "../core";
+import type { Snapshot } from "../core/workspace";
+import { DiffView } from "./DiffView";
+import { IssueList, Label } from "./ui";
+
+const selectClass = "mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+
+/** Named snapshots of the active config, plus a structural diff between any two of: editor, snapshot, file */
+export function HistoryPanel({ current, snapshots, onSave, onRestore, onDelete }:
+  { current: CustomGPTConfig; snapshots: Snapshot[]; onSave: (name: string)=>void; onRestore: (s: Snapshot)=>void; onDelete: (id: string)=>void; }){
+  const [snapName, setSnapName] = useState("");
+  const [base, setBase] = useState("current");
+  const [target, setTarget] = useState("current");
+  const [file, setFile] = useState<{ name: string; config: CustomGPTConfig } | null>(null);
+  const [fileError, setFileError] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  function resolve(id: string): CustomGPTConfig | undefined {
+    if (id === "current") return current;
+    if (id === "file") return file?.config;
+    return snapshots.find(s => `snap:${s.id}` === id)?.config;
+  }
+  const a = resolve(base), b = resolve(target);
+  const diff = useMemo(()=>a && b ? diffConfigs(a, b) : null, [a, b]);
+
+  async function loadFile(f?: File){
+    if (!f) return;
+    const { config, issues } = parseConfig(await f.text());
+    if (!config) { setFileError(issues[0]?.message || "Could not read file"); return; }
+    setFileError(""); setFile({ name: f.name, config }); setTarget("file");
+  }
+
+  const options = (
+    <>
+      <option value="current">Current editor</option>
+      {snapshots.map(s=>(<option key={s.id} value={`snap:${s.id}`}>{s.name}</option>))}
+      {file && <option value="file">File: {file.name}</option>}
+    </>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input className="flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="Snapshot name, e.g. Approved v2" value={snapName} onChange={(e)=>setSnapName(e.target.value)} />
+        <button onClick={()=>{ onSave(snapName); setSnapName(""); }} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Save Snapshot</button>
+      </div>
+      <div className="space-y-2">
+        {snapshots.map(s=>(
+          <div key={s.id} className="flex flex-wrap items-center gap-2 rounded-2xl border border-gray-200 bg-gray-50 px-3 py-2 text-xs">
+            <span className="font-medium">{s.name}</span>
+            <span className="opacity-70">{new Date(s.createdAt).toLocaleString()}</span>
+            <span className="ml-auto flex gap-3">
+              <button onClick={()=>{ setBase(`snap:${s.id}`); setTarget("current"); }} className="opacity-60 hover:opacity-100">Compare</button>
+              <button onClick={()=>onRestore(s)} className="opacity-60 hover:opacity-100">Restore</button>
+              <button onClick={()=>{ if(base === `snap:${s.id}`) setBase("current"); if(target === `snap:${s.id}`) setTarget("current"); onDelete(s.id); }} className="opacity-60 hover:opacity-100">Delete</button>
+            </span>
+          </div>
+        ))}
+        {!snapshots.length && <p className="text-xs text-gray-500">No snapshots yet.</p>}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-[14px] font-semibold">Compare</h3>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div><Label>Before</Label><select className={selectClass} value={base} onChange={(e)=>setBase(e.target.value)}>{options}</select></div>
+          <div><Label>After</Label><select className={selectClass} value={target} onChange={(e)=>setTarget(e.target.value)}>{options}</select></div>
+          <div className="flex items-end">
+            <button onClick={()=>fileInput.current?.click()} className="w-full rounded-xl border border-gray-300 px-4 py-3 text-sm hover:shadow active:scale-[0.98]">Compare with File…</button>
+            <input ref={fileInput} type="file" accept="application/json,.json,.yaml,.yml" className="hidden" onChange={(e)=>{ loadFile(e.target.files?.[0]); e.target.value=""; }} />
+          </div>
+        </div>
+        {fileError && <IssueList issues={[{ path: "", severity: "error", message: fileError }]} />}
+        {diff && <DiffView diff={diff} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  chunkText, DEFAULT_CHUNKING, documentName, formatBytes, isKnowledgeFile, issuesUnder, KNOWLEDGE_MIME_TYPES,
+  type ChunkingSettings, type ConfigIssue, type KnowledgeDocument,
+} from "../core";
+import { BulkPaste, InlineText, SortableList } from "./ListEditor";
+import { fieldBorder, IssueList, NumberInput } from "./ui";
+
+const PREVIEW_CHUNKS = 12;
+
+/** Attached files with their metadata and flags, name-only hints, and a chunked preview of the selected file; documents reorder and hints edit in place */
+export function KnowledgePanel({ documents, texts, chunking, issues, parseHints, onAttach, onAddHints, onUpdateHint, onRemove, onMove, onChunking }:
+  { documents: KnowledgeDocument[]; texts: Map<string, string>; chunking?: ChunkingSettings; issues: ConfigIssue[]; parseHints: (text: string)=>string[];
+    onAttach: (files: File[])=>void; onAddHints: (names: string[])=>void; onUpdateHint: (i: number, name: string)=>void; onRemove: (i: number)=>void;
+    onMove: (from: number, to: number)=>void; onChunking: (field: keyof ChunkingSettings, v: number | undefined)=>void; }){
+  const [hint, setHint] = useState("");
+  const [previewHash, setPreviewHash] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const previewText = previewHash ? texts.get(previewHash) : undefined;
+  const effective = chunking ?? DEFAULT_CHUNKING;
+  const chunks = useMemo(()=>previewText === undefined ? [] : chunkText(previewText, effective), [previewText, chunking]);
+  const accept = Object.entries(KNOWLEDGE_MIME_TYPES).flatMap(([ext, mime])=>[`.${ext}`, mime]).join(",");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button onClick={()=>fileInput.current?.click()} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Attach Files…</button>
+        <input ref={fileInput} type="file" multiple accept={accept} className="hidden" onChange={(e)=>{ onAttach([...(e.target.files || [])]); e.target.value=""; }} />
+        <input className="flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="…or add a name-only hint, e.g., Pricing Deck v3.pdf" value={hint} onChange={(e)=>setHint(e.target.value)} />
+        <button onClick={()=>{ if(!hint.trim()) return; onAddHints([hint.trim()]); setHint(""); }} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add Hint</button>
+      </div>
+
+      <BulkPaste placeholder="One document name per line" parse={parseHints} onAdd={(text)=>onAddHints(parseHints(text))} />
+
+      <SortableList items={documents} label={documentName} onMove={onMove} rowClassName={(d, i)=>`${fieldBorder(issuesUnder(issues, `knowledge.documents.${i}`))} ${isKnowledgeFile(d) && previewHash === d.sha256 ? "bg-gray-50" : "bg-white"}`}>
+        {(d,i)=>{
+          const flags = issuesUnder(issues, `knowledge.documents.${i}`);
+          if (!isKnowledgeFile(d)) return (<InlineText value={d} onSave={(v)=>onUpdateHint(i, v)} onRemove={()=>onRemove(i)} issues={flags} />);
+          const loaded = texts.has(d.sha256);
+          return (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{d.name}</span>
+                <span className="opacity-70">{d.mimeType} · {formatBytes(d.size)}{d.pages !== undefined ? ` · ${d.pages} page${d.pages === 1 ? "" : "s"}` : ""}{d.rows !== undefined ? ` · ${d.rows} row${d.rows === 1 ? "" : "s"}` : ""}</span>
+                <span className="font-mono opacity-50" title={d.sha256}>{d.sha256.slice(0, 12)}</span>
+                <span className="ml-auto flex gap-3">
+                  {loaded
+                    ? <button onClick={()=>setPreviewHash(previewHash === d.sha256 ? null : d.sha256)} className="opacity-60 hover:opacity-100">{previewHash === d.sha256 ? "Hide" : "Preview"}</button>
+                    : <span className="opacity-50" title="Contents are kept for this session only; attach the file again to preview or bundle it">not loaded</span>}
+                  <button onClick={()=>{ if(previewHash === d.sha256) setPreviewHash(null); onRemove(i); }} className="opacity-60 hover:opacity-100">Remove</button>
+                </span>
+              </div>
+              {flags.length > 0 && <div className="mt-1"><IssueList issues={flags} withPaths={false} /></div>}
+            </>
+          );
+        }}
+      </SortableList>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <NumberInput label="Chunk size (characters)" value={chunking?.chunkSize} onChange={(v)=>onChunking("chunkSize", v)} placeholder={String(DEFAULT_CHUNKING.chunkSize)} issues={issuesUnder(issues, "knowledge.chunking.chunkSize")} />
+        <NumberInput label="Chunk overlap (characters)" value={chunking?.chunkOverlap} onChange={(v)=>onChunking("chunkOverlap", v)} placeholder={String(DEFAULT_CHUNKING.chunkOverlap)} issues={issuesUnder(issues, "knowledge.chunking.chunkOverlap")} />
+      </div>
+
+      {previewText !== undefined && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            {chunks.length} chunk{chunks.length === 1 ? "" : "s"} of up to {effective.chunkSize} characters with {effective.chunkOverlap} overlap{chunks.length > PREVIEW_CHUNKS ? `; showing the first ${PREVIEW_CHUNKS}` : ""}.
+            {!previewText && " No text could be extracted from this file."}
+          </p>
+          <div className="max-h-80 space-y-2 overflow-auto">
+            {chunks.slice(0, PREVIEW_CHUNKS).map(c=>(
+              <div key={c.index} className="rounded-2xl border border-gray-200 bg-white p-3 text-xs">
+                <p className="mb-1 font-mono text-gray-500">#{c.index + 1} · {c.start}–{c.end}</p>
+                <pre className="whitespace-pre-wrap text-[12px] leading-5">{c.text}</pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <IssueList issues={issues.filter(i=>i.path === "knowledge.documents" || /^knowledge\.documents\.\d+$/.test(i.path))} withPaths={false} />
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { ConfigIssue } from "../core";
+import { fieldBorder, IssueList } from "./ui";
+
+const inputClass = "flex-1 rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+const buttonClass = "rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]";
+
+/** Rows that reorder by dragging the ⋮⋮ handle, or with ↑/↓ (Home/End) while the handle has focus */
+export function SortableList<T>({ items, label, onMove, rowClassName, children }:
+  { items: T[]; label: (item: T)=>string; onMove: (from: number, to: number)=>void; rowClassName?: (item: T, i: number)=>string; children: (item: T, i: number)=>React.ReactNode; }){
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [over, setOver] = useState<number | null>(null);
+  const handles = useRef<(HTMLButtonElement | null)[]>([]);
+  const [focusAt, setFocusAt] = useState<number | null>(null);
+  useEffect(()=>{ if(focusAt !== null){ handles.current[focusAt]?.focus(); setFocusAt(null); } }, [focusAt]);
+
+  function move(from: number, to: number){
+    if (to < 0 || to >= items.length || from === to) return;
+    onMove(from, to); setFocusAt(to);
+  }
+  function onKey(e: React.KeyboardEvent, i: number){
+    const to = e.key === "ArrowUp" ? i - 1 : e.key === "ArrowDown" ? i + 1 : e.key === "Home" ? 0 : e.key === "End" ? items.length - 1 : null;
+    if (to === null) return;
+    e.preventDefault(); move(i, to);
+  }
+
+  return (
+    <ol className="space-y-2">
+      {items.map((item,i)=>(
+        // Drag events stop here so the page-wide JSON drop zone ignores reordering
+        <li key={i} className={`flex items-start gap-2 rounded-2xl border px-3 py-2 text-xs ${over === i && dragFrom !== i ? "border-gray-800 bg-gray-50" : rowClassName?.(item, i) ?? "border-gray-200 bg-gray-50"}`}
+          onDragOver={(e)=>{ if(dragFrom === null) return; e.preventDefault(); e.stopPropagation(); setOver(i); }}
+          onDrop={(e)=>{ if(dragFrom === null) return; e.preventDefault(); e.stopPropagation(); move(dragFrom, i); setDragFrom(null); setOver(null); }}>
+          <button ref={(el)=>{ handles.current[i] = el; }} draggable aria-label={`Move “${label(item)}”, position ${i + 1} of ${items.length}`} title="Drag, or use ↑/↓ to reorder"
+            className="mt-0.5 cursor-grab select-none rounded px-1 font-mono text-gray-400 hover:text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-300"
+            onKeyDown={(e)=>onKey(e, i)}
+            onDragStart={(e)=>{ e.stopPropagation(); setDragFrom(i); e.dataTransfer.effectAllowed = "move"; const row = e.currentTarget.closest("li"); if (row) e.dataTransfer.setDragImage(row, 12, 12); }}
+            onDragEnd={()=>{ setDragFrom(null); setOver(null); }}>⋮⋮</button>
+          <div className="min-w-0 flex-1">{children(item, i)}</div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/** A textarea for pasting many items at once, one per line */
+export function BulkPaste({ placeholder, parse, onAdd }:{ placeholder: string; parse: (text: string)=>unknown[]; onAdd: (text: string)=>void; }){
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const count = text.trim() ? parse(text).length : 0;
+  if (!open) return <button onClick={()=>setOpen(true)} className="text-xs text-gray-500 underline-offset-2 hover:underline">Paste a list…</button>;
+  return (
+    <div className="space-y-2">
+      <textarea className="w-full rounded-2xl border border-gray-200 p-3 text-[13px] leading-6 focus:outline-none focus:ring-2 focus:ring-gray-300" rows={4} autoFocus value={text} onChange={(e)=>setText(e.target.value)} placeholder={placeholder} />
+      <div className="flex justify-end gap-2">
+        <button onClick={()=>{ setOpen(false); setText(""); }} className={buttonClass}>Cancel</button>
+        <button onClick={()=>{ onAdd(text); setOpen(false); setText(""); }} disabled={!count} className={`${buttonClass} disabled:opacity-50`}>Add {count || ""} item{count === 1 ? "" : "s"}</button>
+      </div>
+    </div>
+  );
+}
+
+/** Text shown as a row until Edit is pressed; Enter saves, Escape cancels */
+export function InlineText({ value, onSave, onRemove, issues }:{ value: string; onSave: (v: string)=>void; onRemove: ()=>void; issues?: ConfigIssue[]; }){
+  const [draft, setDraft] = useState<string | null>(null);
+  if (draft === null) return (
+    <div>
+      <div className="flex items-start gap-2">
+        <span className="min-w-0 flex-1 break-words">{value}</span>
+        <button onClick={()=>setDraft(value)} className="opacity-60 hover:opacity-100">Edit</button>
+        <button onClick={onRemove} className="opacity-60 hover:opacity-100">Remove</button>
+      </div>
+      {issues && <IssueList issues={issues} withPaths={false} />}
+    </div>
+  );
+  const save = ()=>{ if(draft.trim()) onSave(draft.trim()); setDraft(null); };
+  return (
+    <div className="flex items-center gap-2">
+      <input className={`min-w-0 flex-1 rounded-xl border ${fieldBorder(issues)} px-2 py-1 text-[13px] focus:outline-none focus:ring-2 focus:ring-gray-300`} autoFocus value={draft}
+        onChange={(e)=>setDraft(e.target.value)} onKeyDown={(e)=>{ if(e.key === "Enter") save(); else if(e.key === "Escape") setDraft(null); }} />
+      <button onClick={save} className="opacity-60 hover:opacity-100">Save</button>
+      <button onClick={()=>setDraft(null)} className="opacity-60 hover:opacity-100">Cancel</button>
+    </div>
+  );
+}
+
+/** Add, edit in place, reorder and bulk paste for a list of strings (sample questions, tags, phrases) */
+export function StringListEditor({ items, placeholder, bulkPlaceholder, issuesAt, parse, onAdd, onUpdate, onRemove, onMove }:
+  { items: string[]; placeholder: string; bulkPlaceholder: string; issuesAt: (i: number)=>ConfigIssue[]; parse: (text: string)=>string[];
+    onAdd: (items: string[])=>void; onUpdate: (i: number, v: string)=>void; onRemove: (i: number)=>void; onMove: (from: number, to: number)=>void; }){
+  const [draft, setDraft] = useState("");
+  function add(){ if(!draft.trim()) return; onAdd([draft.trim()]); setDraft(""); }
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input className={inputClass} placeholder={placeholder} value={draft} onChange={(e)=>setDraft(e.target.value)} onKeyDown={(e)=>{ if(e.key === "Enter") add(); }} />
+        <button onClick={add} className={buttonClass}>Add</button>
+      </div>
+      <BulkPaste placeholder={bulkPlaceholder} parse={parse} onAdd={(text)=>onAdd(parse(text))} />
+      <SortableList items={items} label={(s)=>s} onMove={onMove} rowClassName={(_, i)=>`${fieldBorder(issuesAt(i))} bg-gray-50`}>
+        {(s,i)=>(<InlineText value={s} onSave={(v)=>onUpdate(i, v)} onRemove={()=>onRemove(i)} issues={issuesAt(i)} />)}
+      </SortableList>
+    </div>
+  );
+}
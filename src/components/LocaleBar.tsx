@@ -0,0 +1,47 @@
+import React, { useState } from "react";
+import { configLocales, defaultLocale, isLanguageTag, isRtlLocale, untranslatedFields, type CustomGPTConfig } from "../core";
+
+/** Picks the locale the Basic and Starters fields edit; the badge counts fields still falling back to the default locale */
+export function LocaleBar({ config, locale, onSelect, onAdd, onRemove }:
+  { config: CustomGPTConfig; locale: string; onSelect: (l: string)=>void; onAdd: (l: string)=>void; onRemove: (l: string)=>void; }){
+  const [draft, setDraft] = useState("");
+  const locales = configLocales(config);
+  const base = defaultLocale(config);
+  const tag = draft.trim();
+  const problem = !tag ? "" : !isLanguageTag(tag) ? `"${tag}" is not a valid IETF language tag` : locales.some(l=>l.toLowerCase() === tag.toLowerCase()) ? `${tag} is already listed` : "";
+  function add(){ if(!tag || problem) return; onAdd(tag); setDraft(""); }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700">Locale</span>
+        {locales.map(l=>{
+          const missing = untranslatedFields(config, l).length;
+          return (
+            <button key={l} onClick={()=>onSelect(l)} aria-pressed={l === locale}
+              className={`rounded-full border px-3 py-1 ${l === locale ? "border-gray-800 bg-gray-800 text-white" : "border-gray-200 bg-white hover:border-gray-400"}`}>
+              {l}{l === base && " (default)"}{isRtlLocale(l) && " · RTL"}
+              {missing > 0 && <span className="ml-1 rounded-full bg-amber-100 px-1.5 text-amber-700" title={`${missing} field${missing === 1 ? "" : "s"} not translated`}>{missing}</span>}
+            </button>
+          );
+        })}
+        <input value={draft} onChange={(e)=>setDraft(e.target.value)} onKeyDown={(e)=>{ if(e.key === "Enter") add(); }} placeholder="Add locale, e.g. ur" aria-label="New locale tag"
+          className="w-36 rounded-full border border-gray-200 px-3 py-1 focus:outline-none focus:ring-2 focus:ring-gray-300" />
+        <button onClick={add} disabled={!tag || !!problem} className="opacity-60 hover:opacity-100 disabled:opacity-30">Add</button>
+        {locale !== base && <button onClick={()=>onRemove(locale)} className="ml-auto opacity-60 hover:text-red-600 hover:opacity-100">Remove {locale}</button>}
+      </div>
+      {problem && <p className="text-red-600">{problem}</p>}
+      {locale !== base && <p className="text-gray-500">Editing the {locale} translation. Fields left empty use the {base} text, shown as placeholders; amber fields are not translated yet.</p>}
+    </div>
+  );
+}
+
+/** Stands in for a list the current locale does not translate yet */
+export function FallbackList({ what, count, base, onTranslate }:{ what: string; count: number; base: string; onTranslate: ()=>void; }){
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-amber-400 bg-amber-50 px-3 py-2 text-xs text-amber-800 sm:flex-row sm:items-center sm:justify-between">
+      <span>Not translated — the {count} {base} {what}{count === 1 ? "" : "s"} {count === 1 ? "is" : "are"} used.</span>
+      <button onClick={onTranslate} className="rounded-xl border border-amber-300 bg-white px-3 py-1 hover:shadow active:scale-[0.98]">Translate {what}s</button>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from "react";
+import { chatMessages, lineDiff, runStarters, streamChat, type CustomGPTConfig, type PlaygroundSettings, type TranscriptRun } from "../core";
+import { Input, IssueList, Label } from "./ui";
+
+const selectClass = "mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+
+/** Sends the compiled prompt plus a starter or sample question to an OpenAI-compatible endpoint; batch runs are kept per entry for comparison */
+export function PlaygroundPanel({ config, settings, onSettings, runs, onSaveRun, onDeleteRun, onDownloadRuns }:
+  { config: CustomGPTConfig; settings: PlaygroundSettings; onSettings: (s: PlaygroundSettings)=>void; runs: TranscriptRun[];
+    onSaveRun: (r: TranscriptRun)=>void; onDeleteRun: (id: string)=>void; onDownloadRuns: ()=>void; }){
+  // Kept in memory only so keys never reach the workspace
+  const [apiKey, setApiKey] = useState("");
+  const [temperature, setTemperature] = useState(settings.temperature === undefined ? "" : String(settings.temperature));
+  const [choice, setChoice] = useState("custom");
+  const [custom, setCustom] = useState("");
+  const [reply, setReply] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState<"" | "single" | "batch">("");
+  const [progress, setProgress] = useState("");
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  useEffect(()=>()=>abort.current?.abort(), []);
+
+  const starters = config.conversationStarters || [];
+  const samples = config.sampleQuestions || [];
+  const prompt = choice.startsWith("starter:") ? starters[Number(choice.slice(8))]?.prompt ?? ""
+    : choice.startsWith("sample:") ? samples[Number(choice.slice(7))] ?? "" : custom;
+  const ready = !!settings.baseUrl.trim() && !!settings.model.trim();
+
+  async function send(){
+    if (!prompt.trim() || busy) return;
+    const ctl = new AbortController(); abort.current = ctl;
+    setBusy("single"); setReply(""); setError("");
+    try { await streamChat(settings, chatMessages(config, prompt), (d)=>setReply(r=>r + d), { apiKey: apiKey || undefined, signal: ctl.signal }); }
+    catch (e) { if ((e as Error).name !== "AbortError") setError((e as Error).message); }
+    finally { setBusy(""); abort.current = null; }
+  }
+
+  async function batch(){
+    if (!starters.length || busy) return;
+    const ctl = new AbortController(); abort.current = ctl;
+    setBusy("batch"); setError(""); setProgress(`0 / ${starters.length}`);
+    try {
+      const run = await runStarters(config, settings, { apiKey: apiKey || undefined, signal: ctl.signal, onProgress: (done, total)=>setProgress(`${done} / ${total}`) });
+      onSaveRun(run); setCompareId(run.id);
+    } catch (e) { if ((e as Error).name !== "AbortError") setError((e as Error).message); }
+    finally { setBusy(""); setProgress(""); abort.current = null; }
+  }
+
+  const shown = runs.find(r=>r.id === compareId) ?? runs[runs.length - 1];
+  const previous = shown ? runs[runs.indexOf(shown) - 1] : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+        <div className="md:col-span-2"><Input label="Base URL (OpenAI-compatible)" value={settings.baseUrl} onChange={(v)=>onSettings({ ...settings, baseUrl: v })} placeholder="http://localhost:11434/v1" /></div>
+        <Input label="Model" value={settings.model} onChange={(v)=>onSettings({ ...settings, model: v })} placeholder="e.g., gpt-4o-mini" />
+        <Input label="Temperature" type="number" inputMode="decimal" value={temperature} placeholder="server default"
+          onChange={(v)=>{ setTemperature(v); const n = Number(v); if (!v.trim()) onSettings({ ...settings, temperature: undefined }); else if (Number.isFinite(n)) onSettings({ ...settings, temperature: n }); }} />
+        <div className="md:col-span-2"><Input label="API key (not saved)" type="password" value={apiKey} onChange={setApiKey} placeholder="Leave empty for local servers" /></div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Prompt</Label>
+        <select className={selectClass} value={choice} onChange={(e)=>setChoice(e.target.value)}>
+          <option value="custom">Custom message…</option>
+          {starters.length > 0 && <optgroup label="Conversation starters">{starters.map((s,i)=>(<option key={i} value={`starter:${i}`}>{s.title}</option>))}</optgroup>}
+          {samples.length > 0 && <optgroup label="Sample questions">{samples.map((q,i)=>(<option key={i} value={`sample:${i}`}>{q}</option>))}</optgroup>}
+        </select>
+        {choice === "custom"
+          ? <textarea className="w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" rows={3} value={custom} onChange={(e)=>setCustom(e.target.value)} placeholder="Ask something…" />
+          : <p className="rounded-2xl border border-gray-200 bg-gray-50 p-3 text-sm">{prompt}</p>}
+        <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+          {busy && <button onClick={()=>abort.current?.abort()} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Stop</button>}
+          <button onClick={batch} disabled={!ready || !!busy || !starters.length} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-50">{busy === "batch" ? `Running ${progress}…` : "Run All Starters"}</button>
+          <button onClick={send} disabled={!ready || !!busy || !prompt.trim()} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-50">{busy === "single" ? "Streaming…" : "Send"}</button>
+        </div>
+      </div>
+
+      {error && <IssueList issues={[{ path: "", severity: "error", message: error }]} />}
+      {(reply || busy === "single") && (
+        <div className="rounded-2xl border border-gray-200 bg-white">
+          <pre className="max-h-80 overflow-auto whitespace-pre-wrap p-4 text-[13px] leading-6">{reply || "…"}</pre>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-[14px] font-semibold">Saved runs</h3>
+          {runs.length > 0 && <button onClick={onDownloadRuns} className="rounded-xl border border-gray-300 px-3 py-1 text-sm hover:shadow active:scale-[0.98]">Download Transcripts</button>}
+        </div>
+        {!runs.length && <p className="text-xs text-gray-500">No runs yet. “Run All Starters” saves a transcript of every starter with this entry.</p>}
+        {[...runs].reverse().map(r=>(
+          <div key={r.id} className={`flex flex-wrap items-center gap-2 rounded-2xl border px-3 py-2 text-xs ${shown?.id === r.id ? "border-gray-800 bg-gray-50" : "border-gray-200"}`}>
+            <span className="font-medium">{new Date(r.ranAt).toLocaleString()}</span>
+            <span className="opacity-70">{r.model} · {r.transcripts.filter(t=>t.error).length ? `${r.transcripts.filter(t=>t.error).length} failed` : "all ok"}{r.instructions !== config.instructions ? " · older instructions" : ""}</span>
+            <span className="ml-auto flex gap-3">
+              <button onClick={()=>setCompareId(r.id)} className="opacity-60 hover:opacity-100">View</button>
+              <button onClick={()=>{ if(compareId === r.id) setCompareId(null); onDeleteRun(r.id); }} className="opacity-60 hover:opacity-100">Delete</button>
+            </span>
+          </div>
+        ))}
+        {shown && (
+          <div className="space-y-3">
+            {previous && <p className="text-xs text-gray-500">Compared with the run from {new Date(previous.ranAt).toLocaleString()}: removed lines in red, new lines in green.</p>}
+            {shown.transcripts.map((t,i)=>{
+              const before = previous?.transcripts.find(p=>p.prompt === t.prompt);
+              const lines = before && !before.error && !t.error ? lineDiff(before.reply, t.reply) : null;
+              return (
+                <div key={i} className="rounded-2xl border border-gray-200 bg-white p-3 text-xs">
+                  <p className="font-medium">{t.title} <span className="font-normal opacity-60">· {(t.durationMs / 1000).toFixed(1)}s</span></p>
+                  <p className="mb-2 opacity-70">{t.prompt}</p>
+                  {t.error ? <IssueList issues={[{ path: "", severity: "error", message: t.error }]} /> : (
+                    <pre className="max-h-60 overflow-auto whitespace-pre-wrap text-[12px] leading-5">
+                      {lines ? lines.map((l,j)=>(
+                        <div key={j} className={l.op === "add" ? "bg-green-50 text-green-800" : l.op === "del" ? "bg-red-50 text-red-800" : ""}>{l.text}</div>
+                      )) : t.reply}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React, { useState } from "react";
+import { DEFAULT_LONG_RETENTION_DAYS, POLICY_RULES, RISK_SEVERITIES, ruleSeverity, type PolicyReport, type PolicySettings, type RiskSeverity } from "../core";
+import { Input } from "./ui";
+
+const LEVEL_STYLE: Record<PolicyReport["level"], string> = {
+  none: "border-green-200 bg-green-50 text-green-800",
+  low: "border-gray-200 bg-gray-50 text-gray-800",
+  medium: "border-amber-200 bg-amber-50 text-amber-800",
+  high: "border-red-200 bg-red-50 text-red-800",
+};
+const SEVERITY_STYLE: Record<RiskSeverity, string> = { low: "text-gray-600", medium: "text-amber-700", high: "text-red-700" };
+
+/** Risk score, findings, and the per-rule severities that drive them */
+export function PolicyPanel({ report, settings, onSettings, onDownload }:
+  { report: PolicyReport; settings: PolicySettings; onSettings: (s: PolicySettings)=>void; onDownload: ()=>void; }){
+  const [days, setDays] = useState(String(settings.longRetentionDays ?? DEFAULT_LONG_RETENTION_DAYS));
+  function setSeverity(id: string, v: string){ onSettings({ ...settings, severities: { ...settings.severities, [id]: v as RiskSeverity | "off" } }); }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className={`rounded-2xl border px-4 py-3 ${LEVEL_STYLE[report.level]}`}>
+          <span className="text-2xl font-semibold tabular-nums">{report.score}</span><span className="text-sm"> / 100 risk</span>
+          <span className="ml-3 text-sm font-medium uppercase">{report.level}</span>
+        </div>
+        <button onClick={onDownload} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Download Report (JSON)</button>
+      </div>
+
+      {report.findings.length ? (
+        <ul className="space-y-1 text-xs">
+          {report.findings.map((f,i)=>(
+            <li key={i}><span className={`font-medium uppercase ${SEVERITY_STYLE[f.severity]}`}>{f.severity}</span> <span className="font-mono opacity-70">{f.path}</span> — {f.message}</li>
+          ))}
+        </ul>
+      ) : <p className="text-xs text-gray-500">No policy findings.</p>}
+
+      <div className="space-y-2">
+        <h3 className="text-[14px] font-semibold">Rules</h3>
+        <div className="space-y-2">
+          {POLICY_RULES.map(r=>(
+            <div key={r.id} className="flex items-center justify-between gap-3 text-xs">
+              <span>{r.title} <span className="font-mono opacity-60">{r.id}</span></span>
+              <select className="rounded-xl border border-gray-200 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-gray-300" value={ruleSeverity(r, settings)} onChange={(e)=>setSeverity(r.id, e.target.value)}>
+                <option value="off">off</option>
+                {RISK_SEVERITIES.map(s=>(<option key={s} value={s}>{s}</option>))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <div className="md:w-1/3">
+          <Input label="Long retention threshold (days)" type="number" inputMode="numeric" value={days}
+            onChange={(v)=>{ setDays(v); const n = Number(v); if (v.trim() && Number.isInteger(n) && n >= 0) onSettings({ ...settings, longRetentionDays: n }); }} />
+        </div>
+      </div>
+    </div>
+  );
+}
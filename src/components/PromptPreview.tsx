@@ -0,0 +1,51 @@
+import React, { useMemo, useState } from "react";
+import { compilePrompt, type CustomGPTConfig } from "../core";
+import { Label } from "./ui";
+
+/** The system prompt the model would actually receive, with an estimated token count per section against a budget */
+export function PromptPreview({ config, budget, onBudget }:{ config: CustomGPTConfig; budget: number; onBudget: (n: number)=>void; }){
+  const compiled = useMemo(()=>compilePrompt(config), [config]);
+  const [budgetText, setBudgetText] = useState(String(budget));
+  const over = compiled.tokens > budget;
+
+  function commitBudget(){
+    const n = Number(budgetText);
+    if (Number.isInteger(n) && n > 0) onBudget(n); else setBudgetText(String(budget));
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div className="sm:w-48">
+          <Label>Token budget</Label>
+          <input className="mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300" inputMode="numeric" value={budgetText}
+            onChange={(e)=>setBudgetText(e.target.value)} onBlur={commitBudget} onKeyDown={(e)=>{ if(e.key === "Enter") commitBudget(); }} />
+        </div>
+        <p className={`text-sm ${over ? "text-red-700" : "text-gray-600"}`}>≈ {compiled.tokens.toLocaleString()} / {budget.toLocaleString()} tokens</p>
+      </div>
+      {over && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+          The compiled prompt is about {(compiled.tokens - budget).toLocaleString()} tokens over budget. Trim the instructions or drop directives you don't need.
+        </div>
+      )}
+      <table className="w-full text-left text-xs">
+        <thead className="text-gray-500"><tr><th className="pr-3 font-medium">Section</th><th className="pr-3 font-medium text-right">Tokens</th><th className="font-medium">Share</th></tr></thead>
+        <tbody>
+          {compiled.sections.map(s=>(
+            <tr key={s.id}>
+              <td className="pr-3">{s.title}</td>
+              <td className="pr-3 text-right tabular-nums">{s.tokens.toLocaleString()}</td>
+              <td className="w-1/2"><div className="h-2 rounded-full bg-gray-800" style={{ width: `${Math.min(100, (s.tokens / Math.max(budget, compiled.tokens)) * 100)}%` }} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="rounded-2xl border border-gray-200 bg-white">
+        <pre className="max-h-[50vh] overflow-auto whitespace-pre-wrap p-4 text-[13px] leading-6">
+{compiled.text}
+        </pre>
+      </div>
+      <p className="text-xs text-gray-500">Token counts are an offline estimate; the real count depends on the model's tokenizer.</p>
+    </div>
+  );
+}
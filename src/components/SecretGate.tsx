@@ -0,0 +1,27 @@
+import React from "react";
+import type { SecretFinding } from "../core";
+
+export type ExportKind = "copy" | "download" | "bundle" | "locales";
+const ACTION_LABELS: Record<ExportKind, string> = { copy: "Copy", download: "Download", bundle: "Download Bundle", locales: "Download per Locale" };
+
+/** Stops an export while the config holds secret-looking values; the only way through is a redacted copy */
+export function SecretGate({ kind, findings, onRedact, onCancel }:{ kind: ExportKind; findings: SecretFinding[]; onRedact: ()=>void; onCancel: ()=>void; }){
+  return (
+    <div className="max-h-[80vh] w-full max-w-2xl space-y-3 overflow-auto rounded-2xl border border-red-200 bg-white p-4 text-sm shadow-lg" role="alertdialog" aria-label="Secrets found">
+      <div className="flex items-center justify-between">
+        <h2 className="text-[15px] font-semibold text-red-700">{findings.length} secret-looking value{findings.length === 1 ? "" : "s"} in this config</h2>
+        <button onClick={onCancel} className="text-xs opacity-60 hover:opacity-100">Close</button>
+      </div>
+      <p className="text-xs text-gray-600">Exports get pasted, committed and shared. Remove these values and reference secrets by name (e.g. SUPPORT_API_KEY in an action's auth settings), or export a copy with them replaced by [REDACTED].</p>
+      <ul className="space-y-1 text-xs">
+        {findings.map((f,i)=>(
+          <li key={i}><code className="mr-1 rounded bg-gray-100 px-1">{f.path}</code>{f.kind}: <span className="font-mono">{f.preview}</span></li>
+        ))}
+      </ul>
+      <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+        <button onClick={onCancel} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Cancel and Fix</button>
+        <button onClick={onRedact} className="rounded-xl border border-red-300 px-4 py-2 text-sm text-red-700 hover:shadow active:scale-[0.98]">Redact and {ACTION_LABELS[kind]}</button>
+      </div>
+    </div>
+  );
+}
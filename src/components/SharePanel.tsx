@@ -0,0 +1,51 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { encodeShare, secretPaths, SHARE_LINK_WARN_LENGTH, shareUrl, stripSecrets, type CustomGPTConfig, type ShareMode } from "../core";
+import { Toggle } from "./ui";
+
+const MODE_LABELS: Record<ShareMode, string> = { review: "Read-only review", copy: "Editable copy" };
+
+/** Builds a link that carries the config in its fragment, so nothing is uploaded anywhere */
+export function SharePanel({ config, onCopy, onClose }:{ config: CustomGPTConfig; onCopy: (url: string)=>void; onClose: ()=>void; }){
+  const [mode, setMode] = useState<ShareMode>("review");
+  const secrets = useMemo(()=>secretPaths(config), [config]);
+  const [strip, setStrip] = useState(true);
+  const [url, setUrl] = useState("");
+  useEffect(()=>{
+    let live = true;
+    encodeShare(strip ? stripSecrets(config) : config).then(p=>{ if(live) setUrl(shareUrl(window.location.href, mode, p)); });
+    return ()=>{ live = false; };
+  }, [config, mode, strip]);
+  const tooLong = url.length > SHARE_LINK_WARN_LENGTH;
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-gray-200 bg-white p-4 text-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-[15px] font-semibold">Share link</h2>
+        <button onClick={onClose} className="text-xs opacity-60 hover:opacity-100">Close</button>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(MODE_LABELS) as ShareMode[]).map(m=>(
+          <label key={m} className="flex cursor-pointer items-center gap-2">
+            <input type="radio" name="share-mode" className="accent-black" checked={mode === m} onChange={()=>setMode(m)} />{MODE_LABELS[m]}
+          </label>
+        ))}
+      </div>
+      {secrets.length > 0 && (
+        <div className="space-y-1">
+          <Toggle label={`Remove auth instructions and redact secrets (${secrets.length} field${secrets.length === 1 ? "" : "s"})`} checked={strip} onChange={setStrip} />
+          {!strip && <p className="text-xs text-amber-600">These fields can hold keys, tokens or internal setup notes; anyone with the link can read them.</p>}
+        </div>
+      )}
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <input readOnly aria-label="Share link" value={url} onFocus={(e)=>e.target.select()} className="min-w-0 flex-1 rounded-2xl border border-gray-200 p-3 font-mono text-[12px] focus:outline-none focus:ring-2 focus:ring-gray-300" />
+        <button onClick={()=>onCopy(url)} disabled={!url} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98] disabled:opacity-50">Copy Link</button>
+      </div>
+      <p className={`text-xs ${tooLong ? "text-amber-600" : "text-gray-500"}`}>
+        {url.length.toLocaleString()} characters.{" "}
+        {tooLong
+          ? `Over ${SHARE_LINK_WARN_LENGTH.toLocaleString()}: chat apps, email clients and some browsers may cut the link off, and a truncated link will not open. Shorten inline specs or send the JSON file instead.`
+          : "The config travels in the part after #, which browsers never send to a server."}
+      </p>
+    </div>
+  );
+}
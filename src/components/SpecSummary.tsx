@@ -0,0 +1,28 @@
+import React from "react";
+import { checkSpecAuth, type CustomAction, type SpecReport } from "../core";
+
+/** Operations, security schemes and hosts read from an action's inline spec */
+export function SpecSummary({ report, authType }:{ report: SpecReport; authType: NonNullable<CustomAction["auth"]>["type"] }){
+  if (report.error) return <p className="text-xs text-red-600">Spec did not parse: {report.error}</p>;
+  const authWarnings = checkSpecAuth(report, authType);
+  return (
+    <div className="space-y-2 rounded-2xl border border-gray-200 bg-white p-3 text-xs">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-600">
+        <span className="font-medium text-gray-800">{report.title || report.format}{report.version && ` v${report.version}`}</span>
+        {report.securitySchemes.length > 0 && <span>Security: {report.securitySchemes.map(s=>`${s.name} (${s.type})`).join(", ")}</span>}
+        {report.hosts.length > 0 && <span>Hosts: {report.hosts.join(", ")}</span>}
+      </div>
+      {authWarnings.map((w,i)=>(<p key={i} className="text-amber-600">{w}</p>))}
+      <div className="max-h-48 overflow-auto">
+        <table className="w-full text-left">
+          <thead className="text-gray-500"><tr><th className="pr-3 font-medium">{report.format === "graphql" ? "Kind" : "Method"}</th><th className="pr-3 font-medium">{report.format === "graphql" ? "Field" : "Path"}</th><th className="font-medium">{report.format === "graphql" ? "Returns" : "operationId"}</th></tr></thead>
+          <tbody>
+            {report.operations.map((op,i)=>(
+              <tr key={i}><td className="pr-3 font-mono">{op.method}</td><td className="pr-3 font-mono break-all">{op.path}</td><td className="font-mono">{report.format === "graphql" ? op.summary : op.operationId || "—"}</td></tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { issuesUnder, type ConfigIssue, type ConversationStarter } from "../core";
+import { BulkPaste, SortableList } from "./ListEditor";
+import { fieldBorder, Input, IssueList } from "./ui";
+
+const rowInputClass = "min-w-0 rounded-xl border border-gray-200 px-2 py-1 text-[13px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+
+function StarterRow({ starter, issues, onSave, onRemove }:{ starter: ConversationStarter; issues: ConfigIssue[]; onSave: (s: ConversationStarter)=>void; onRemove: ()=>void; }){
+  const [draft, setDraft] = useState<ConversationStarter | null>(null);
+  if (!draft) return (
+    <div>
+      <div className="flex items-start gap-2">
+        <span className="min-w-0 flex-1 break-words"><span className="font-medium">{starter.title}</span> <span className="opacity-70">— {starter.prompt}</span></span>
+        <button onClick={()=>setDraft(starter)} className="opacity-60 hover:opacity-100">Edit</button>
+        <button onClick={onRemove} className="opacity-60 hover:opacity-100">Remove</button>
+      </div>
+      <IssueList issues={issues} withPaths={false} />
+    </div>
+  );
+  const save = ()=>{ if(draft.title.trim() && draft.prompt.trim()) onSave({ title: draft.title.trim(), prompt: draft.prompt.trim() }); setDraft(null); };
+  const keys = (e: React.KeyboardEvent)=>{ if(e.key === "Enter") save(); else if(e.key === "Escape") setDraft(null); };
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+      <input className={`${rowInputClass} sm:w-48`} autoFocus aria-label="Starter title" value={draft.title} onChange={(e)=>setDraft({ ...draft, title: e.target.value })} onKeyDown={keys} />
+      <input className={`${rowInputClass} flex-1`} aria-label="Starter prompt" value={draft.prompt} onChange={(e)=>setDraft({ ...draft, prompt: e.target.value })} onKeyDown={keys} />
+      <span className="flex gap-3">
+        <button onClick={save} className="opacity-60 hover:opacity-100">Save</button>
+        <button onClick={()=>setDraft(null)} className="opacity-60 hover:opacity-100">Cancel</button>
+      </span>
+    </div>
+  );
+}
+
+/** Starters in the order the GPT shows them: add, paste many, edit in place and reorder */
+export function StartersEditor({ starters, issues, parse, onAdd, onUpdate, onRemove, onMove }:
+  { starters: ConversationStarter[]; issues: ConfigIssue[]; parse: (text: string)=>ConversationStarter[];
+    onAdd: (s: ConversationStarter[])=>void; onUpdate: (i: number, s: ConversationStarter)=>void; onRemove: (i: number)=>void; onMove: (from: number, to: number)=>void; }){
+  const [title, setTitle] = useState("");
+  const [prompt, setPrompt] = useState("");
+  const at = (i: number) => issuesUnder(issues, `conversationStarters.${i}`);
+  function add(){ if(!title.trim() || !prompt.trim()) return; onAdd([{ title: title.trim(), prompt: prompt.trim() }]); setTitle(""); setPrompt(""); }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Input label="Starter Title" value={title} onChange={setTitle} />
+        <Input label="Starter Prompt" value={prompt} onChange={setPrompt} />
+      </div>
+      <div className="flex justify-end">
+        <button onClick={add} className="w-full sm:w-auto rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Add Starter</button>
+      </div>
+      <BulkPaste placeholder="One starter per line: Title | prompt" parse={parse} onAdd={(text)=>onAdd(parse(text))} />
+      <SortableList items={starters} label={(s)=>s.title} onMove={onMove} rowClassName={(_, i)=>`${fieldBorder(at(i))} bg-gray-50`}>
+        {(s,i)=>(<StarterRow starter={s} issues={at(i)} onSave={(next)=>onUpdate(i, next)} onRemove={()=>onRemove(i)} />)}
+      </SortableList>
+      <IssueList issues={issues.filter(i=>i.path === "conversationStarters")} withPaths={false} />
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from "react";
+import { applyTemplate, diffConfigs, TEMPLATES, type ApplyMode, type CustomGPTConfig, type SafetyPolicy, type Template } from "../core";
+import { DiffView } from "./DiffView";
+import { Label } from "./ui";
+
+const selectClass = "mt-2 w-full rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+const inputClass = "rounded-2xl border border-gray-200 p-3 text-[15px] focus:outline-none focus:ring-2 focus:ring-gray-300";
+const ORG_SWITCHES = [["jailbreakDefense", "Jailbreak defense"], ["blockDisallowedContent", "Block disallowed content"], ["piiRedaction", "PII redaction"]] as const;
+
+/** Built-in and saved templates with a merge/replace preview, plus the org safety defaults layered over whichever is applied */
+export function TemplateGallery({ current, userTemplates, orgSafety, onApply, onSave, onDelete, onOrgSafety }:
+  { current: CustomGPTConfig; userTemplates: Template[]; orgSafety?: SafetyPolicy; onApply: (c: CustomGPTConfig, t: Template)=>void;
+    onSave: (name: string, description: string)=>void; onDelete: (id: string)=>void; onOrgSafety: (p: SafetyPolicy)=>void; }){
+  const [selected, setSelected] = useState<Template | null>(null);
+  const [mode, setMode] = useState<ApplyMode>("merge");
+  const [saveName, setSaveName] = useState("");
+  const [saveDescription, setSaveDescription] = useState("");
+  const [orgPhrases, setOrgPhrases] = useState((orgSafety?.customDisallowedPhrases || []).join(", "));
+
+  const result = useMemo(()=>selected ? applyTemplate(current, selected, mode, orgSafety) : null, [current, selected, mode, orgSafety]);
+  const diff = useMemo(()=>result ? diffConfigs(current, result) : null, [current, result]);
+
+  function setSwitch(key: typeof ORG_SWITCHES[number][0], v: string){ onOrgSafety({ ...orgSafety, [key]: v === "" ? undefined : v === "on" }); }
+  function commitPhrases(){ onOrgSafety({ ...orgSafety, customDisallowedPhrases: orgPhrases.split(",").map(s=>s.trim()).filter(Boolean) }); }
+
+  const card = (t: Template, removable: boolean) => (
+    <div key={t.id} className={`rounded-2xl border px-3 py-2 text-xs ${selected?.id === t.id ? "border-gray-800 bg-gray-50" : "border-gray-200"}`}>
+      <button onClick={()=>setSelected(selected?.id === t.id ? null : t)} className="block w-full text-left">
+        <span className="block text-[13px] font-medium">{t.name}</span>
+        <span className="block opacity-70">{t.description || "No description"}</span>
+      </button>
+      {removable && <button onClick={()=>{ if(selected?.id === t.id) setSelected(null); onDelete(t.id); }} className="mt-1 opacity-60 hover:opacity-100">Delete</button>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 md:grid-cols-3">{TEMPLATES.map(t=>card(t, false))}</div>
+      {userTemplates.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-[14px] font-semibold">My templates</h3>
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 md:grid-cols-3">{userTemplates.map(t=>card(t, true))}</div>
+        </div>
+      )}
+
+      {selected && diff && result && (
+        <div className="space-y-3 rounded-2xl border border-gray-200 bg-white p-3">
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center gap-2"><input type="radio" checked={mode === "merge"} onChange={()=>setMode("merge")} />Merge into current</label>
+              <label className="flex items-center gap-2"><input type="radio" checked={mode === "replace"} onChange={()=>setMode("replace")} />Replace current</label>
+            </div>
+            <button onClick={()=>{ onApply(result, selected); setSelected(null); }} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Apply “{selected.name}”</button>
+          </div>
+          <p className="text-xs text-gray-500">{mode === "merge" ? "Template values win; lists are combined." : "Everything except the name is reset to defaults plus the template."}{orgSafety ? " Org safety defaults are applied on top." : ""}</p>
+          <DiffView diff={diff} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-[14px] font-semibold">Save current as template</h3>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input className={`flex-1 ${inputClass}`} placeholder="Template name" value={saveName} onChange={(e)=>setSaveName(e.target.value)} />
+          <input className={`flex-[2] ${inputClass}`} placeholder="What it's for" value={saveDescription} onChange={(e)=>setSaveDescription(e.target.value)} />
+          <button onClick={()=>{ onSave(saveName, saveDescription); setSaveName(""); setSaveDescription(""); }} className="rounded-xl border border-gray-300 px-4 py-2 text-sm hover:shadow active:scale-[0.98]">Save Template</button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-[14px] font-semibold">Org safety defaults</h3>
+        <p className="text-xs text-gray-500">Forced on top of every template you apply. Leave a switch on “Template decides” to keep the template's choice.</p>
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          {ORG_SWITCHES.map(([key, label])=>(
+            <div key={key}>
+              <Label>{label}</Label>
+              <select className={selectClass} value={orgSafety?.[key] === undefined ? "" : orgSafety[key] ? "on" : "off"} onChange={(e)=>setSwitch(key, e.target.value)}>
+                <option value="">Template decides</option><option value="on">Always on</option><option value="off">Always off</option>
+              </select>
+            </div>
+          ))}
+        </div>
+        <div>
+          <Label>Always-disallowed phrases (comma-separated)</Label>
+          <input className={`mt-2 w-full ${inputClass}`} value={orgPhrases} onChange={(e)=>setOrgPhrases(e.target.value)} onBlur={commitPhrases} placeholder="e.g., internal codename, guaranteed returns" />
+        </div>
+      </div>
+    </div>
+  );
+}
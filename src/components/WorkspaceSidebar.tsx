@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { searchEntries, type Workspace } from "../core/workspace";
+
+function formatTime(iso?: string) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/** Saved configs: search by name or tag, switch, create, duplicate, rename and delete */
+export function WorkspaceSidebar({ workspace, onSelect, onCreate, onDuplicate, onRename, onDelete }:
+  { workspace: Workspace; onSelect: (id: string)=>void; onCreate: ()=>void; onDuplicate: (id: string)=>void; onRename: (id: string, name: string)=>void; onDelete: (id: string)=>void; }){
+  const [query, setQuery] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const entries = searchEntries(workspace, query);
+
+  function commitRename(){
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  }
+
+  return (
+    <aside className="rounded-2xl border border-gray-200 bg-white p-3 space-y-3 lg:sticky lg:top-24 lg:max-h-[calc(100vh-7rem)] lg:overflow-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-[15px] font-semibold">Workspace</h2>
+        <button onClick={onCreate} className="rounded-xl border border-gray-300 px-3 py-1 text-sm hover:shadow active:scale-[0.98]">New</button>
+      </div>
+      <input className="w-full rounded-2xl border border-gray-200 p-2 text-[14px] focus:outline-none focus:ring-2 focus:ring-gray-300" placeholder="Search name or tag…" value={query} onChange={(e)=>setQuery(e.target.value)} />
+      <ul className="space-y-2">
+        {entries.map(e=>{
+          const active = e.id === workspace.activeId;
+          return (
+            <li key={e.id} className={`rounded-2xl border px-3 py-2 text-xs ${active ? "border-gray-800 bg-gray-50" : "border-gray-200"}`}>
+              {renaming?.id === e.id ? (
+                <input autoFocus className="w-full rounded-xl border border-gray-300 px-2 py-1 text-[13px]" value={renaming.name}
+                  onChange={(ev)=>setRenaming({ id: e.id, name: ev.target.value })} onBlur={commitRename}
+                  onKeyDown={(ev)=>{ if(ev.key === "Enter") commitRename(); if(ev.key === "Escape") setRenaming(null); }} />
+              ) : (
+                <button onClick={()=>onSelect(e.id)} className="block w-full text-left">
+                  <span className="block truncate text-[13px] font-medium">{e.config.name || "Untitled"}</span>
+                  <span className="block text-gray-500">Updated {formatTime(e.config.updatedAt)}</span>
+                </button>
+              )}
+              {!!e.config.tags?.length && (
+                <div className="mt-1 flex flex-wrap gap-1">{e.config.tags.map((t,i)=>(<span key={i} className="rounded-full border border-gray-200 px-2 text-[11px]">{t}</span>))}</div>
+              )}
+              <div className="mt-1 flex gap-3 text-gray-500">
+                <button onClick={()=>setRenaming({ id: e.id, name: e.config.name })} className="hover:text-gray-900">Rename</button>
+                <button onClick={()=>onDuplicate(e.id)} className="hover:text-gray-900">Duplicate</button>
+                <button onClick={()=>{ if(window.confirm(`Delete "${e.config.name || "Untitled"}"?`)) onDelete(e.id); }} className="hover:text-red-600">Delete</button>
+              </div>
+            </li>
+          );
+        })}
+        {!entries.length && <li className="text-xs text-gray-500">No configs match “{query}”.</li>}
+      </ul>
+    </aside>
+  );
+}
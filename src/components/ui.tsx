@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from "react";
+import { countBySeverity, type ConfigIssue } from "../core";
+
+/** UI atoms */
+export function Label({ children }: { children: React.ReactNode }) {
+  return <label className="text-[13px] font-medium text-gray-700">{children}</label>;
+}
+export function IssueList({ issues, withPaths = true }:{ issues: ConfigIssue[]; withPaths?: boolean }){
+  if (!issues.length) return null;
+  return (
+    <ul className="space-y-1 text-xs">
+      {issues.map((iss,i)=>(
+        <li key={i} className={iss.severity === "error" ? "text-red-600" : "text-amber-600"}>
+          {withPaths && iss.path && <code className="mr-1 rounded bg-gray-100 px-1">{iss.path}</code>}{iss.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+export function fieldBorder(issues?: ConfigIssue[]){
+  if (issues?.some(i=>i.severity === "error")) return "border-red-400";
+  if (issues?.length) return "border-amber-400";
+  return "border-gray-200";
+}
+export function TextArea({ label, value, onChange, rows = 6, placeholder, issues, dir }:
+  { label: string; value: string; onChange: (v: string) => void; rows?: number; placeholder?: string; issues?: ConfigIssue[]; dir?: "ltr" | "rtl"; }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <Label>{label}</Label>
+      <textarea
+        className={`w-full rounded-2xl border ${fieldBorder(issues)} p-3 text-[15px] leading-6 focus:outline-none focus:ring-2 focus:ring-gray-300`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={rows}
+        placeholder={placeholder}
+        dir={dir}
+      />
+      {issues && <IssueList issues={issues} withPaths={false} />}
+    </div>
+  );
+}
+export function Input({ label, value, onChange, placeholder, type = "text", inputMode, issues, dir }:
+  { label: string; value: string; onChange: (v: string) => void; placeholder?: string; type?: string; inputMode?: React.HTMLAttributes<HTMLInputElement>["inputMode"]; issues?: ConfigIssue[]; dir?: "ltr" | "rtl"; }) {
+  return (
+    <div className="flex flex-col gap-2">
+      <Label>{label}</Label>
+      <input
+        className={`w-full rounded-2xl border ${fieldBorder(issues)} p-3 text-[15px] leading-6 focus:outline-none focus:ring-2 focus:ring-gray-300`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        type={type}
+        inputMode={inputMode}
+        dir={dir}
+      />
+      {issues && <IssueList issues={issues} withPaths={false} />}
+    </div>
+  );
+}
+/** A number field over an optional value; the typed text is kept while focused so clearing and retyping doesn't jump */
+export function NumberInput({ label, value, onChange, placeholder, issues }:
+  { label: string; value: number | undefined; onChange: (v: number | undefined) => void; placeholder?: string; issues?: ConfigIssue[]; }) {
+  const [text, setText] = useState(value === undefined ? "" : String(value));
+  const [focused, setFocused] = useState(false);
+  useEffect(()=>{ if (!focused) setText(value === undefined ? "" : String(value)); }, [value, focused]);
+  return (
+    <div onFocus={()=>setFocused(true)} onBlur={()=>setFocused(false)}>
+      <Input label={label} value={text} type="number" inputMode="numeric" placeholder={placeholder} issues={issues}
+        onChange={(v)=>{ setText(v); const n = Number(v); if (!v.trim()) onChange(undefined); else if (Number.isFinite(n)) onChange(n); }} />
+    </div>
+  );
+}
+export function Toggle({ label, checked, onChange }:{ label: string; checked: boolean; onChange: (v: boolean)=>void; }){
+  return (
+    <label className="flex items-center gap-3 cursor-pointer select-none">
+      <input className="h-5 w-5 accent-black" type="checkbox" checked={checked} onChange={(e)=>onChange(e.target.checked)} />
+      <span className="text-[14px]">{label}</span>
+    </label>
+  );
+}
+export function Section({ title, children, defaultOpen = false, hint, issues }:
+  { title: string; children: React.ReactNode; defaultOpen?: boolean; hint?: string; issues?: ConfigIssue[]; }) {
+  const { errors, warnings } = countBySeverity(issues || []);
+  return (
+    <details className="rounded-2xl border border-gray-200 bg-white open:shadow-sm" open={defaultOpen}>
+      <summary className="list-none cursor-pointer select-none px-4 py-3 text-[15px] font-semibold flex items-center justify-between">
+        <span className="flex items-center gap-2">
+          {title}
+          {errors > 0 && <span className="rounded-full bg-red-100 px-2 text-xs font-medium text-red-700">{errors} error{errors === 1 ? "" : "s"}</span>}
+          {warnings > 0 && <span className="rounded-full bg-amber-100 px-2 text-xs font-medium text-amber-700">{warnings} warning{warnings === 1 ? "" : "s"}</span>}
+        </span>
+        {hint && <span className="text-xs text-gray-500">{hint}</span>}
+      </summary>
+      <div className="p-4 pt-0">
+        <div className="h-px bg-gray-100 mb-4" />
+        {children}
+      </div>
+    </details>
+  );
+}
+export function Toast({ show, text }:{ show:boolean; text:string }){
+  return (
+    <div className={`fixed left-1/2 top-4 z-50 -translate-x-1/2 transform rounded-full bg-black px-4 py-2 text-white text-sm transition-opacity ${show ? "opacity-100" : "opacity-0"}`} role="status" aria-live="polite">
+      {text}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig, normalizeConfig, toolsFromToggles } from "./build";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+
+describe("buildConfig", () => {
+  it("fills defaults, without timestamps, at the current version", () => {
+    const cfg = buildConfig({ name: "Helper", schemaVersion: "1.0" });
+    expect(cfg).toMatchObject({ name: "Helper", schemaVersion: CURRENT_SCHEMA_VERSION, language: "en" });
+    expect(cfg.createdAt).toBeUndefined();
+  });
+});
+
+describe("toolsFromToggles", () => {
+  it("returns enabled tools in canonical order", () => {
+    expect(toolsFromToggles({ vision: true, web: true, code: false })).toEqual(["web", "vision"]);
+  });
+});
+
+describe("normalizeConfig", () => {
+  it("trims, dedupes case-insensitively and orders tools", () => {
+    const cfg = normalizeConfig(buildConfig({
+      name: "  Helper ", instructions: "Be brief.\n", builtInTools: ["image", "web", "image"],
+      tags: ["Support", "support ", " billing"], sampleQuestions: ["Hi?", "hi?"],
+      customActions: [{ name: " Tickets ", type: "openapi", allowedDomains: ["API.example.com", "api.example.com "] }],
+    }));
+    expect(cfg).toMatchObject({ name: "Helper", instructions: "Be brief.", builtInTools: ["web", "image"], tags: ["Support", "billing"], sampleQuestions: ["Hi?"] });
+    expect(cfg.customActions).toEqual([{ name: "Tickets", type: "openapi", allowedDomains: ["api.example.com"] }]);
+  });
+
+  it("drops empty and repeated starters but keeps ones that only share a title", () => {
+    const cfg = normalizeConfig(buildConfig({
+      conversationStarters: [
+        { title: "Refunds", prompt: "How do refunds work?" },
+        { title: "refunds ", prompt: "how do refunds work?" },
+        { title: "Refunds", prompt: "Refund my last order." },
+        { title: "", prompt: "No title" },
+      ],
+    }));
+    expect(cfg.conversationStarters).toEqual([{ title: "Refunds", prompt: "How do refunds work?" }, { title: "Refunds", prompt: "Refund my last order." }]);
+  });
+
+  it("applies the same rules inside locale overrides", () => {
+    const cfg = normalizeConfig(buildConfig({ locales: { " fr ": { name: " Aide ", sampleQuestions: ["Salut ?", "salut ?"] } } }));
+    expect(cfg.locales).toEqual({ fr: { name: "Aide", sampleQuestions: ["Salut ?"] } });
+  });
+
+  it("leaves invalid values for validation to report", () => {
+    const cfg = normalizeConfig(buildConfig({ memory: { enabled: true, dataRetentionDays: -30.6 } }));
+    expect(cfg.memory?.dataRetentionDays).toBe(-30.6);
+  });
+});
@@ -0,0 +1,90 @@
+import { BUILT_IN_TOOLS, type ActionAuth, type BuiltInTool, type ConversationStarter, type CustomGPTConfig, type KnowledgeDocument, type LocaleOverrides } from "./types";
+import { defaultConfig } from "./defaults";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+import { documentName } from "./knowledge";
+
+export type ToolToggles = Partial<Record<BuiltInTool, boolean>>;
+
+/** Enabled tools in canonical order. */
+export function toolsFromToggles(toggles: ToolToggles): BuiltInTool[] {
+  return BUILT_IN_TOOLS.filter(t => toggles[t]);
+}
+
+/** Assembles a complete config: `defaultConfig`, then `input` on top. Always stamped with the current schema version. */
+export function buildConfig(input: Partial<CustomGPTConfig> = {}): CustomGPTConfig {
+  const { createdAt, updatedAt, ...defaults } = defaultConfig;
+  return { ...defaults, ...input, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+function unique(list: string[] | undefined, fold = (s: string) => s.toLowerCase()) {
+  if (!list) return list;
+  const seen = new Set<string>();
+  return list.map(s => s.trim()).filter(s => {
+    const k = fold(s);
+    if (!s || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/** Trims document names and drops repeats by name, keeping the first entry (file or hint) for each. */
+function uniqueDocuments(list: KnowledgeDocument[] | undefined) {
+  if (!list) return list;
+  const trimmed = list.map(d => typeof d === "string" ? d.trim() : { ...d, name: d.name.trim() });
+  const names = unique(trimmed.map(documentName));
+  return names?.map(n => trimmed.find(d => documentName(d) === n)!);
+}
+
+function normalizeAuth(auth: ActionAuth): ActionAuth {
+  const out: ActionAuth = { ...auth };
+  if (auth.apiKey) out.apiKey = { ...auth.apiKey, name: auth.apiKey.name.trim(), ...(auth.apiKey.secretRef !== undefined && { secretRef: auth.apiKey.secretRef.trim() }) };
+  if (auth.oauth2) {
+    const o = auth.oauth2;
+    out.oauth2 = { ...o, authorizationUrl: o.authorizationUrl.trim(), tokenUrl: o.tokenUrl.trim(), ...(o.scopes && { scopes: unique(o.scopes, s => s) }) };
+    for (const key of ["clientIdRef", "clientSecretRef"] as const) if (o[key] !== undefined) out.oauth2[key] = o[key]!.trim();
+  }
+  return out;
+}
+
+/** Drops empty starters and exact repeats (same title and prompt, ignoring case); starters sharing only a title are kept. */
+function uniqueStarters(list: ConversationStarter[]) {
+  const key = (s: ConversationStarter) => `${s.title.toLowerCase()}\n${s.prompt.toLowerCase()}`;
+  return list
+    .map(s => ({ title: s.title.trim(), prompt: s.prompt.trim() }))
+    .filter((s, i, all) => s.title && s.prompt && all.findIndex(x => key(x) === key(s)) === i);
+}
+
+function normalizeLocale(o: LocaleOverrides): LocaleOverrides {
+  const out: LocaleOverrides = {};
+  for (const key of ["name", "description", "instructions"] as const) if (o[key] !== undefined) out[key] = o[key]!.trim();
+  if (o.conversationStarters) out.conversationStarters = uniqueStarters(o.conversationStarters);
+  if (o.sampleQuestions) out.sampleQuestions = unique(o.sampleQuestions);
+  return out;
+}
+
+/**
+ * Canonical form for committing configs: trimmed strings, de-duplicated lists, tools in canonical order and
+ * lowercase action domains. Content is otherwise unchanged; invalid values are left for `validateConfig` to report.
+ */
+export function normalizeConfig(cfg: CustomGPTConfig): CustomGPTConfig {
+  const out: CustomGPTConfig = { ...cfg, name: cfg.name.trim(), instructions: cfg.instructions.trim() };
+  if (cfg.description !== undefined) out.description = cfg.description.trim();
+  if (cfg.language !== undefined) out.language = cfg.language.trim();
+  if (cfg.locales) out.locales = Object.fromEntries(Object.entries(cfg.locales).map(([tag, o]) => [tag.trim(), normalizeLocale(o)]));
+  if (cfg.builtInTools) out.builtInTools = toolsFromToggles(Object.fromEntries(cfg.builtInTools.map(t => [t, true])));
+  if (cfg.customActions) out.customActions = cfg.customActions.map(a => ({
+    ...a,
+    name: a.name.trim(),
+    ...(a.specUrlOrInline !== undefined && { specUrlOrInline: a.specUrlOrInline.trim() }),
+    ...(a.allowedDomains && { allowedDomains: unique(a.allowedDomains.map(d => d.toLowerCase())) }),
+    ...(a.auth && { auth: normalizeAuth(a.auth) }),
+  }));
+  if (cfg.knowledge) out.knowledge = { ...cfg.knowledge, documents: uniqueDocuments(cfg.knowledge.documents) };
+  if (cfg.safety) out.safety = { ...cfg.safety, customDisallowedPhrases: unique(cfg.safety.customDisallowedPhrases) };
+  if (cfg.conversationStarters) out.conversationStarters = uniqueStarters(cfg.conversationStarters);
+  out.sampleQuestions = unique(cfg.sampleQuestions);
+  out.tags = unique(cfg.tags);
+  if (!out.sampleQuestions) delete out.sampleQuestions;
+  if (!out.tags) delete out.tags;
+  return out;
+}
@@ -0,0 +1,21 @@
+import type { CustomGPTConfig } from "./types";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+
+/** Defaults */
+export const defaultConfig: CustomGPTConfig = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  name: "Untitled Custom GPT",
+  description: "",
+  instructions: "You are a helpful assistant.",
+  language: "en",
+  persona: { writingTone: "friendly", emojiUse: "light", responseLength: "medium" },
+  builtInTools: ["web"],
+  customActions: [],
+  knowledge: { enabled: false, documents: [] },
+  memory: { enabled: false, scope: "user", dataRetentionDays: 180 },
+  safety: { jailbreakDefense: true, blockDisallowedContent: true, piiRedaction: false, customDisallowedPhrases: [] },
+  conversationStarters: [{ title: "What can you do?", prompt: "Give me a quick overview of your abilities." }],
+  sampleQuestions: ["How do I get started?"],
+  tags: ["starter"],
+  createdAt: new Date().toISOString(),
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { diffConfigs, lineDiff } from "./diff";
+import { initHistory, record, redo, undo } from "./history";
+
+describe("lineDiff", () => {
+  it("keeps the shared prefix and suffix and marks the middle", () => {
+    expect(lineDiff("a\nb\nc\nd", "a\nx\nc\nd")).toEqual([
+      { op: "same", text: "a" }, { op: "add", text: "x" }, { op: "del", text: "b" }, { op: "same", text: "c" }, { op: "same", text: "d" },
+    ]);
+  });
+
+  it("is all same for equal text; empty text counts as one empty line", () => {
+    expect(lineDiff("a\nb", "a\nb").every(l => l.op === "same")).toBe(true);
+    expect(lineDiff("", "a\nb")).toEqual([{ op: "add", text: "a" }, { op: "add", text: "b" }, { op: "del", text: "" }]);
+  });
+
+  it("can rebuild both sides", () => {
+    const a = "one\ntwo\nthree\nfour\nfive", b = "zero\none\nthree\nfour\n4.5\nfive";
+    const d = lineDiff(a, b);
+    expect(d.filter(l => l.op !== "add").map(l => l.text).join("\n")).toBe(a);
+    expect(d.filter(l => l.op !== "del").map(l => l.text).join("\n")).toBe(b);
+  });
+});
+
+describe("diffConfigs", () => {
+  const before = buildConfig({
+    name: "Helper", instructions: "Be brief.\nBe kind.", tags: ["a", "b"], createdAt: "2024-01-01",
+    customActions: [{ name: "Tickets", type: "openapi" }, { name: "Search", type: "graphql" }],
+  });
+
+  it("is empty for equal configs and ignores timestamps", () => {
+    expect(diffConfigs(before, { ...before, createdAt: "2025-01-01", updatedAt: "2025-01-02" })).toEqual({ changes: [], instructions: [] });
+  });
+
+  it("reports nested fields by dotted path", () => {
+    const { changes } = diffConfigs(before, { ...before, name: "Other", persona: { ...before.persona, writingTone: "formal" } });
+    expect(changes).toEqual([
+      { path: "name", kind: "changed", before: "Helper", after: "Other" },
+      { path: "persona.writingTone", kind: "changed", before: "friendly", after: "formal" },
+    ]);
+  });
+
+  it("matches keyed lists by key and string lists by value", () => {
+    const after = { ...before, tags: ["b", "c"], customActions: [{ name: "Search", type: "webhook" as const }, { name: "Files", type: "openapi" as const }] };
+    expect(diffConfigs(before, after).changes).toEqual([
+      { path: "customActions[Tickets]", kind: "removed", before: before.customActions![0] },
+      { path: "customActions[Search].type", kind: "changed", before: "graphql", after: "webhook" },
+      { path: "customActions[Files]", kind: "added", after: { name: "Files", type: "openapi" } },
+      { path: "tags", kind: "removed", before: "a" },
+      { path: "tags", kind: "added", after: "c" },
+    ]);
+  });
+
+  it("reports a reorder of a keyed list", () => {
+    const after = { ...before, customActions: [...before.customActions!].reverse() };
+    expect(diffConfigs(before, after).changes).toEqual([{ path: "customActions", kind: "changed", before: ["Tickets", "Search"], after: ["Search", "Tickets"] }]);
+  });
+
+  it("diffs instructions line by line instead of as a field", () => {
+    const d = diffConfigs(before, { ...before, instructions: "Be brief.\nBe precise." });
+    expect(d.changes).toEqual([]);
+    expect(d.instructions.filter(l => l.op !== "same")).toEqual([{ op: "add", text: "Be precise." }, { op: "del", text: "Be kind." }]);
+  });
+});
+
+describe("history", () => {
+  const same = (a: number, b: number) => a === b;
+
+  it("undoes and redoes in order, and recording clears redo", () => {
+    let h = record(record(initHistory(1), 2, same), 3, same);
+    h = undo(undo(h));
+    expect(h.present).toBe(1);
+    h = redo(h);
+    expect(h).toEqual({ past: [1], present: 2, future: [3] });
+    expect(record(h, 9, same).future).toEqual([]);
+  });
+
+  it("ignores no-op records and empty stacks", () => {
+    const h = initHistory(1);
+    expect(record(h, 1, same)).toBe(h);
+    expect(undo(h)).toBe(h);
+    expect(redo(h)).toBe(h);
+  });
+
+  it("keeps at most `limit` past states", () => {
+    let h = initHistory(0);
+    for (let i = 1; i <= 5; i++) h = record(h, i, same, 3);
+    expect(h.past).toEqual([2, 3, 4]);
+  });
+});
@@ -0,0 +1,86 @@
+import type { CustomGPTConfig } from "./types";
+
+export type FieldChange = { path: string; kind: "added" | "removed" | "changed"; before?: unknown; after?: unknown };
+export type DiffLine = { op: "same" | "add" | "del"; text: string };
+/** Structural diff between two configs. `instructions` is diffed line by line instead of as a field. */
+export type ConfigDiff = { changes: FieldChange[]; instructions: DiffLine[] };
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+const field = (name: string) => (x: unknown) => isObj(x) && typeof x[name] === "string" ? x[name] as string : undefined;
+
+/** Arrays whose items are matched by a key rather than by position */
+const KEYED_LISTS: Record<string, (item: unknown) => string | undefined> = {
+  customActions: field("name"),
+  conversationStarters: field("title"),
+  // Name-only hints and attached files share one namespace
+  "knowledge.documents": x => typeof x === "string" ? x : field("name")(x),
+};
+const IGNORED = new Set(["createdAt", "updatedAt", "instructions"]);
+const equal = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function walk(a: unknown, b: unknown, path: string, out: FieldChange[]) {
+  if (equal(a, b)) return;
+  if (a === undefined) { out.push({ path, kind: "added", after: b }); return; }
+  if (b === undefined) { out.push({ path, kind: "removed", before: a }); return; }
+  if (isObj(a) && isObj(b)) {
+    for (const k of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (!path && IGNORED.has(k)) continue;
+      walk(a[k], b[k], path ? `${path}.${k}` : k, out);
+    }
+    return;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const key = KEYED_LISTS[path];
+    if (key && [...a, ...b].every(x => key(x) !== undefined)) {
+      const byKey = (list: unknown[]) => new Map(list.map(x => [key(x)!, x]));
+      const before = byKey(a), after = byKey(b);
+      for (const [k, v] of before) if (!after.has(k)) out.push({ path: `${path}[${k}]`, kind: "removed", before: v });
+      for (const [k, v] of after) {
+        if (!before.has(k)) out.push({ path: `${path}[${k}]`, kind: "added", after: v });
+        else walk(before.get(k), v, `${path}[${k}]`, out);
+      }
+      if (!out.some(c => c.path.startsWith(`${path}[`)) && a.length === b.length) out.push({ path, kind: "changed", before: a.map(key), after: b.map(key) });
+      return;
+    }
+    if ([...a, ...b].every(x => typeof x === "string")) {
+      const removed = (a as string[]).filter(x => !b.includes(x)), added = (b as string[]).filter(x => !a.includes(x));
+      for (const x of removed) out.push({ path, kind: "removed", before: x });
+      for (const x of added) out.push({ path, kind: "added", after: x });
+      if (!removed.length && !added.length) out.push({ path, kind: "changed", before: a, after: b });
+      return;
+    }
+  }
+  out.push({ path, kind: "changed", before: a, after: b });
+}
+
+/** Line diff via longest common subsequence, after trimming the shared prefix and suffix. */
+export function lineDiff(a: string, b: string): DiffLine[] {
+  const x = a.split("\n"), y = b.split("\n");
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length, endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) { endX--; endY--; }
+  const xs = x.slice(start, endX), ys = y.slice(start, endY);
+  const n = xs.length, m = ys.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) for (let j = m - 1; j >= 0; j--) lcs[i][j] = xs[i] === ys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+  const mid: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && xs[i] === ys[j]) { mid.push({ op: "same", text: xs[i] }); i++; j++; }
+    else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) mid.push({ op: "add", text: ys[j++] });
+    else mid.push({ op: "del", text: xs[i++] });
+  }
+  return [
+    ...x.slice(0, start).map(text => ({ op: "same" as const, text })),
+    ...mid,
+    ...x.slice(endX).map(text => ({ op: "same" as const, text })),
+  ];
+}
+
+export function diffConfigs(before: CustomGPTConfig, after: CustomGPTConfig): ConfigDiff {
+  const changes: FieldChange[] = [];
+  walk(before, after, "", changes);
+  return { changes, instructions: before.instructions === after.instructions ? [] : lineDiff(before.instructions, after.instructions) };
+}
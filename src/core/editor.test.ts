@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { configReducer, editorConfig, listEdits, listItems, moveItem, parseBulk, type ConfigAction } from "./editor";
+import type { CustomGPTConfig } from "./types";
+
+const base = editorConfig({ name: "Helper", instructions: "Be brief.", createdAt: "2024-01-01T00:00:00.000Z" } as CustomGPTConfig);
+const apply = (...actions: ConfigAction[]) => actions.reduce(configReducer, base);
+
+describe("editorConfig", () => {
+  it("fills every section the editor shows and keeps what is set", () => {
+    expect(base).toMatchObject({
+      description: "", language: "en", builtInTools: [], customActions: [], tags: [],
+      knowledge: { enabled: false, documents: [] }, memory: { enabled: false, scope: "user", dataRetentionDays: 180 },
+      safety: { jailbreakDefense: false, customDisallowedPhrases: [] },
+    });
+    expect(editorConfig({ ...base, memory: { enabled: true, dataRetentionDays: 0 } }).memory?.dataRetentionDays).toBe(0);
+  });
+});
+
+describe("configReducer", () => {
+  it("adds, updates, removes and moves list items, including nested lists", () => {
+    expect(apply({ type: "add", list: "tags", items: ["a", "b", "c"] }, { type: "update", list: "tags", index: 1, item: "B" }, { type: "remove", list: "tags", index: 0 }, { type: "move", list: "tags", from: 1, to: 0 }).tags)
+      .toEqual(["c", "B"]);
+    expect(apply({ type: "add", list: "knowledge.documents", items: ["a.md"] }).knowledge).toEqual({ enabled: false, documents: ["a.md"] });
+    expect(apply({ type: "add", list: "safety.customDisallowedPhrases", items: ["x"] }).safety?.customDisallowedPhrases).toEqual(["x"]);
+  });
+
+  it("patches sections without touching the rest", () => {
+    const cfg = apply({ type: "set", patch: { name: "Other" } }, { type: "persona", patch: { writingTone: "formal" } }, { type: "memory", patch: { enabled: true } });
+    expect(cfg).toMatchObject({ name: "Other", instructions: "Be brief.", persona: { writingTone: "formal", emojiUse: "light" }, memory: { enabled: true, dataRetentionDays: 180 } });
+  });
+
+  it("keeps built-in tools in canonical order", () => {
+    const cfg = apply({ type: "tool", tool: "code", enabled: true }, { type: "tool", tool: "web", enabled: true }, { type: "tool", tool: "code", enabled: true });
+    expect(cfg.builtInTools).toEqual(["web", "code"]);
+    expect(configReducer(cfg, { type: "tool", tool: "code", enabled: false }).builtInTools).toEqual(["web"]);
+  });
+
+  it("drops chunking settings that match the defaults", () => {
+    const tuned = apply({ type: "chunking", field: "chunkSize", value: 500 });
+    expect(tuned.knowledge?.chunking).toEqual({ chunkSize: 500, chunkOverlap: 200 });
+    expect(configReducer(tuned, { type: "chunking", field: "chunkSize", value: undefined }).knowledge).toEqual({ enabled: false, documents: [] });
+  });
+
+  it("adds, localizes and removes locales, dropping an empty map", () => {
+    const fr = apply({ type: "addLocale", locale: "fr" }, { type: "localize", locale: "fr", patch: { name: "Aide", description: "Bref" } });
+    expect(fr.locales).toEqual({ fr: { name: "Aide", description: "Bref" } });
+    expect(configReducer(fr, { type: "addLocale", locale: "fr" })).toBe(fr);
+    expect(configReducer(fr, { type: "localize", locale: "fr", patch: { name: undefined } }).locales).toEqual({ fr: { description: "Bref" } });
+    expect("locales" in configReducer(fr, { type: "removeLocale", locale: "fr" })).toBe(false);
+  });
+
+  it("fills in a loaded config", () => {
+    expect(configReducer(base, { type: "load", config: { name: "New", instructions: "Hi." } as CustomGPTConfig })).toMatchObject({ name: "New", tags: [], language: "en" });
+  });
+});
+
+describe("list helpers", () => {
+  it("move an item, ignoring out-of-range moves", () => {
+    const items = ["a", "b", "c"];
+    expect(moveItem(items, 0, 2)).toEqual(["b", "c", "a"]);
+    expect(moveItem(items, 2, 3)).toBe(items);
+    expect(moveItem(items, -1, 0)).toBe(items);
+  });
+
+  it("read nested lists by dotted path", () => {
+    expect(listItems(apply({ type: "add", list: "knowledge.documents", items: ["a.md"] }), "knowledge.documents")).toEqual(["a.md"]);
+    expect(listItems({ name: "", instructions: "" } as CustomGPTConfig, "tags")).toEqual([]);
+  });
+
+  it("edit plain arrays through a setter", () => {
+    let items = ["a", "b"];
+    const set = (next: string[]) => { items = next; };
+    listEdits(items, set).onAdd(["c"]);
+    listEdits(items, set).onMove(2, 0);
+    listEdits(items, set).onUpdate(1, "A");
+    listEdits(items, set).onRemove(2);
+    expect(items).toEqual(["c", "A"]);
+  });
+});
+
+describe("parseBulk", () => {
+  it("takes one item per non-empty line, and commas for tags", () => {
+    expect(parseBulk("sampleQuestions", " What?\r\n\nWhy? \n")).toEqual(["What?", "Why?"]);
+    expect(parseBulk("tags", "a, b\nc,")).toEqual(["a", "b", "c"]);
+  });
+
+  it("splits starters on a bar or tab, using a lone part as both title and prompt", () => {
+    expect(parseBulk("conversationStarters", "Refunds | How do I get a refund?\nHours\tWhen are you open?\nHelp me\n| Only a prompt")).toEqual([
+      { title: "Refunds", prompt: "How do I get a refund?" },
+      { title: "Hours", prompt: "When are you open?" },
+      { title: "Help me", prompt: "Help me" },
+      { title: "Only a prompt", prompt: "Only a prompt" },
+    ]);
+  });
+});
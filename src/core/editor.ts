@@ -0,0 +1,144 @@
+import type {
+  BuiltInTool, ChunkingSettings, ConversationStarter, CustomAction, CustomGPTConfig, KnowledgeBase, KnowledgeDocument, LocaleOverrides, MemoryPolicy, PersonaStyle, SafetyPolicy,
+} from "./types";
+import { toolsFromToggles } from "./build";
+import { DEFAULT_CHUNKING } from "./knowledge";
+
+/** Item type of every list the editor can add to, edit in place and reorder, keyed by its dotted path. */
+export type ListItems = {
+  conversationStarters: ConversationStarter;
+  customActions: CustomAction;
+  sampleQuestions: string;
+  tags: string;
+  "knowledge.documents": KnowledgeDocument;
+  "safety.customDisallowedPhrases": string;
+};
+export type ListKey = keyof ListItems;
+
+type ListAction = { [K in ListKey]:
+  | { type: "add"; list: K; items: ListItems[K][] }
+  | { type: "update"; list: K; index: number; item: ListItems[K] }
+  | { type: "remove"; list: K; index: number }
+  | { type: "move"; list: K; from: number; to: number }
+}[ListKey];
+
+/** Every edit the editor can make to a config. */
+export type ConfigAction =
+  | { type: "load"; config: CustomGPTConfig }
+  | { type: "set"; patch: Partial<Pick<CustomGPTConfig, "name" | "description" | "instructions" | "language">> }
+  | { type: "persona"; patch: PersonaStyle }
+  | { type: "tool"; tool: BuiltInTool; enabled: boolean }
+  | { type: "knowledge"; patch: Partial<Pick<KnowledgeBase, "enabled">> }
+  | { type: "chunking"; field: keyof ChunkingSettings; value: number | undefined }
+  | { type: "memory"; patch: Partial<MemoryPolicy> }
+  | { type: "safety"; patch: Omit<SafetyPolicy, "customDisallowedPhrases"> }
+  | { type: "addLocale"; locale: string }
+  | { type: "removeLocale"; locale: string }
+  /** A field set to `undefined` loses its override and falls back to the default locale. */
+  | { type: "localize"; locale: string; patch: LocaleOverrides }
+  | ListAction;
+
+/** A loaded config with every section the editor shows filled in, so edits never have to create parents. */
+export function editorConfig(c: CustomGPTConfig): CustomGPTConfig {
+  return {
+    ...c,
+    description: c.description || "", language: c.language || "en",
+    persona: { writingTone: c.persona?.writingTone || "friendly", emojiUse: c.persona?.emojiUse || "light", responseLength: c.persona?.responseLength || "medium" },
+    builtInTools: c.builtInTools || [],
+    customActions: c.customActions || [],
+    knowledge: { ...c.knowledge, enabled: c.knowledge?.enabled || false, documents: c.knowledge?.documents || [] },
+    memory: { enabled: c.memory?.enabled || false, scope: c.memory?.scope || "user", dataRetentionDays: c.memory?.dataRetentionDays ?? 180 },
+    safety: { jailbreakDefense: !!c.safety?.jailbreakDefense, blockDisallowedContent: !!c.safety?.blockDisallowedContent, piiRedaction: !!c.safety?.piiRedaction, customDisallowedPhrases: c.safety?.customDisallowedPhrases || [] },
+    conversationStarters: c.conversationStarters || [], sampleQuestions: c.sampleQuestions || [], tags: c.tags || [],
+  };
+}
+
+export function listItems<K extends ListKey>(cfg: CustomGPTConfig, list: K): ListItems[K][] {
+  const items = list === "knowledge.documents" ? cfg.knowledge?.documents
+    : list === "safety.customDisallowedPhrases" ? cfg.safety?.customDisallowedPhrases
+    : cfg[list as Exclude<ListKey, "knowledge.documents" | "safety.customDisallowedPhrases">];
+  return (items || []) as ListItems[K][];
+}
+
+function withList(cfg: CustomGPTConfig, list: ListKey, items: unknown[]): CustomGPTConfig {
+  if (list === "knowledge.documents") return { ...cfg, knowledge: { enabled: false, ...cfg.knowledge, documents: items as KnowledgeDocument[] } };
+  if (list === "safety.customDisallowedPhrases") return { ...cfg, safety: { ...cfg.safety, customDisallowedPhrases: items as string[] } };
+  return { ...cfg, [list]: items };
+}
+
+/** Copy of `items` with the entry at `from` moved to `to`; out-of-range moves return `items` unchanged. */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const out = [...items];
+  out.splice(to, 0, out.splice(from, 1)[0]);
+  return out;
+}
+
+/** `locales` with one entry replaced in place (or removed when `overrides` is null); an empty map is dropped. */
+function withLocale(cfg: CustomGPTConfig, locale: string, overrides: LocaleOverrides | null): CustomGPTConfig {
+  const { locales: _, ...rest } = cfg;
+  const locales = { ...cfg.locales, [locale]: overrides };
+  if (!overrides) delete locales[locale];
+  return Object.keys(locales).length ? { ...rest, locales: locales as Record<string, LocaleOverrides> } : rest;
+}
+
+/** Add, update, remove and move handlers over a plain array, for lists outside `ListItems` (a locale's starters, say). */
+export function listEdits<T>(items: T[], set: (next: T[]) => void) {
+  return {
+    onAdd: (add: T[]) => set([...items, ...add]),
+    onUpdate: (index: number, item: T) => set(items.map((x, i) => i === index ? item : x)),
+    onRemove: (index: number) => set(items.filter((_, i) => i !== index)),
+    onMove: (from: number, to: number) => set(moveItem(items, from, to)),
+  };
+}
+
+export function configReducer(cfg: CustomGPTConfig, action: ConfigAction): CustomGPTConfig {
+  switch (action.type) {
+    case "load": return editorConfig(action.config);
+    case "set": return { ...cfg, ...action.patch };
+    case "persona": return { ...cfg, persona: { ...cfg.persona, ...action.patch } };
+    case "tool": {
+      const on = new Set(cfg.builtInTools);
+      if (action.enabled) on.add(action.tool); else on.delete(action.tool);
+      return { ...cfg, builtInTools: toolsFromToggles(Object.fromEntries([...on].map(t => [t, true]))) };
+    }
+    case "knowledge": return { ...cfg, knowledge: { enabled: false, ...cfg.knowledge, ...action.patch } };
+    case "chunking": {
+      // Cleared fields fall back to the default; settings equal to the defaults are dropped
+      const chunking = { ...DEFAULT_CHUNKING, ...cfg.knowledge?.chunking, [action.field]: action.value ?? DEFAULT_CHUNKING[action.field] };
+      const { chunking: _, ...knowledge } = { enabled: false, ...cfg.knowledge };
+      const isDefault = chunking.chunkSize === DEFAULT_CHUNKING.chunkSize && chunking.chunkOverlap === DEFAULT_CHUNKING.chunkOverlap;
+      return { ...cfg, knowledge: isDefault ? knowledge : { ...knowledge, chunking } };
+    }
+    case "memory": return { ...cfg, memory: { enabled: false, ...cfg.memory, ...action.patch } };
+    case "safety": return { ...cfg, safety: { ...cfg.safety, ...action.patch } };
+    case "addLocale": return cfg.locales?.[action.locale] ? cfg : withLocale(cfg, action.locale, {});
+    case "removeLocale": return withLocale(cfg, action.locale, null);
+    case "localize": {
+      const merged: LocaleOverrides = { ...cfg.locales?.[action.locale], ...action.patch };
+      const overrides = Object.fromEntries(Object.entries(merged).filter(([, v]) => v !== undefined)) as LocaleOverrides;
+      return withLocale(cfg, action.locale, overrides);
+    }
+    case "add": return withList(cfg, action.list, [...listItems(cfg, action.list), ...action.items]);
+    case "update": return withList(cfg, action.list, listItems(cfg, action.list).map((x, i) => i === action.index ? action.item : x));
+    case "remove": return withList(cfg, action.list, listItems(cfg, action.list).filter((_, i) => i !== action.index));
+    case "move": return withList(cfg, action.list, moveItem<unknown>(listItems(cfg, action.list), action.from, action.to));
+  }
+}
+
+/** Lists that accept pasted text, one item per line. */
+export type BulkListKey = Exclude<ListKey, "customActions">;
+
+/**
+ * Items from pasted text, one per non-empty line. Tags may also be comma-separated. Starters take
+ * `Title | prompt` or `Title<tab>prompt`; a line without either is used as both title and prompt.
+ */
+export function parseBulk<K extends BulkListKey>(list: K, text: string): ListItems[K][] {
+  const lines = text.split(/\r?\n/).flatMap(l => list === "tags" ? l.split(",") : [l]).map(l => l.trim()).filter(Boolean);
+  if (list !== "conversationStarters") return lines as ListItems[K][];
+  return lines.map(l => {
+    const [title, ...rest] = l.split(/\s*(?:\||\t)\s*/);
+    const prompt = rest.join(" | ").trim();
+    return { title: title.trim() || prompt, prompt: prompt || title.trim() };
+  }) as ListItems[K][];
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { exportConfig, getExporter, listExporters } from "./exporters";
+import type { CustomGPTConfig } from "./types";
+
+const full: CustomGPTConfig = buildConfig({
+  name: "Helper", description: "Answers support tickets.", tags: ["support"], updatedAt: "2024-02-01T00:00:00.000Z",
+  customActions: [
+    { name: "Tickets", type: "openapi", specUrlOrInline: "https://api.example.com/openapi.json", rateLimitPerMinute: 30, allowedDomains: ["api.example.com"], auth: { type: "api_key", instructions: "Ask IT for a key.", apiKey: { in: "header", name: "X-API-Key", secretRef: "TICKETS_KEY" } } },
+    { name: "Search", type: "graphql", specUrlOrInline: "type Query { a: Int }" },
+  ],
+  locales: { fr: { name: "Aide", instructions: "Réponds en français.", sampleQuestions: ["Comment commencer ?"] }, de: {} },
+});
+
+describe("exportConfig", () => {
+  it("falls back to JSON for unknown formats", () => {
+    expect(exportConfig(full, "nope").content).toBe(JSON.stringify(full, null, 2));
+    expect(getExporter("nope")).toBeUndefined();
+  });
+
+  it("registers every documented target", () => {
+    expect(listExporters().map(e => e.id)).toEqual(expect.arrayContaining(["json", "yaml", "markdown", "openai-gpt", "openai-assistant", "system-prompt"]));
+  });
+});
+
+describe("markdown brief", () => {
+  const { content, unsupported } = exportConfig(full, "markdown");
+
+  it("renders action limits, domains, auth notes and the update time", () => {
+    expect(content).toContain("| Updated | 2024-02-01T00:00:00.000Z |");
+    expect(content).toMatch(/\| Tickets \| openapi \| .* \| api\.example\.com \| 30\/min \|/);
+    expect(content).toContain("- **Tickets**: Ask IT for a key.");
+  });
+
+  it("renders each locale's overrides", () => {
+    expect(content).toContain("### fr");
+    expect(content).toContain("- Name: Aide");
+    expect(content).toContain("Réponds en français.");
+    expect(content).toContain("- Comment commencer ?");
+    expect(content).toMatch(/### de\n\n_No overrides; uses the default text._/);
+  });
+
+  it("reports only what it leaves out", () => {
+    expect(unsupported).toEqual(['customActions.1.specUrlOrInline: inline specs are listed as "inline", not reproduced']);
+  });
+
+  it("says Disabled only when knowledge is off, whatever the chunking", () => {
+    const brief = (knowledge: CustomGPTConfig["knowledge"]) => exportConfig(buildConfig({ knowledge }), "markdown");
+    expect(brief({ enabled: true, documents: ["faq.md"] }).content).not.toContain("_Disabled._");
+    expect(brief({ enabled: true, documents: [], chunking: { chunkSize: 800, chunkOverlap: 100 } }).content).toContain("Chunking: 800 characters, 100 overlap");
+    const off = brief({ enabled: false, documents: ["faq.md"] });
+    expect(off.content).toContain("_Disabled._");
+    expect(off.unsupported).toEqual(["knowledge.documents: not listed while knowledge is disabled"]);
+  });
+});
+
+describe("lossy targets", () => {
+  it("system prompt reports description, tags and translations", () => {
+    const { unsupported } = exportConfig(full, "system-prompt");
+    expect(unsupported).toEqual(expect.arrayContaining([expect.stringMatching(/^description:/), expect.stringMatching(/^tags:/), expect.stringMatching(/^locales:/)]));
+  });
+
+  it("GPT builder skips non-OpenAPI actions and reports action settings it cannot carry", () => {
+    const { content, unsupported } = exportConfig(full, "openai-gpt");
+    expect(JSON.parse(content).actions).toHaveLength(1);
+    expect(unsupported).toEqual(expect.arrayContaining([
+      'customActions.1: GPT actions must be OpenAPI; "graphql" skipped',
+      "customActions.0.rateLimitPerMinute: not configurable on GPT actions",
+      "customActions.0.allowedDomains: GPT actions take their domain from the spec",
+    ]));
+  });
+
+  it("GPT builder turns secret references into placeholders", () => {
+    const action = JSON.parse(exportConfig(full, "openai-gpt").content).actions[0];
+    expect(action.authentication).toMatchObject({ type: "api_key", authorization_type: "custom", custom_auth_header: "X-API-Key", api_key: "${TICKETS_KEY}" });
+  });
+});
@@ -0,0 +1,245 @@
+import type { CustomAction, CustomGPTConfig } from "./types";
+import { documentName, formatBytes, isKnowledgeFile } from "./knowledge";
+import { compilePrompt, TOOL_LABELS } from "./prompt";
+import { toYAML } from "./yaml";
+
+/** What an exporter produced, plus every field it could not carry over (as `path: reason`). */
+export type ExportResult = { content: string; unsupported: string[] };
+
+export type Exporter = {
+  id: string;
+  label: string;
+  extension: string;
+  mime: string;
+  export: (cfg: CustomGPTConfig) => ExportResult;
+};
+
+const registry = new Map<string, Exporter>();
+
+/** Adds (or replaces) an export target. The header's format picker lists targets in registration order. */
+export function registerExporter(exporter: Exporter) { registry.set(exporter.id, exporter); }
+export function getExporter(id: string) { return registry.get(id); }
+export function listExporters() { return [...registry.values()]; }
+
+/** Runs a registered exporter by id; unknown ids fall back to JSON. */
+export function exportConfig(cfg: CustomGPTConfig, id: string): ExportResult {
+  return (registry.get(id) ?? registry.get("json")!).export(cfg);
+}
+
+/** Helpers */
+function slug(s: string) { return s.trim().toLowerCase().replace(/[^a-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 64) || "action"; }
+
+/** Fields that are metadata in our schema but have no slot in a vendor payload. */
+function dropped(cfg: CustomGPTConfig, fields: (keyof CustomGPTConfig)[], reason: string) {
+  return fields.filter(f => {
+    const v = cfg[f];
+    return Array.isArray(v) ? v.length > 0 : v !== undefined && v !== "";
+  }).map(f => `${f}: ${reason}`);
+}
+
+/** Vendor payloads hold one language; translations go out as one export per locale. */
+function perLocale(cfg: CustomGPTConfig) {
+  const tags = Object.keys(cfg.locales || {});
+  return tags.length ? [`locales: only the default locale is exported; export ${tags.join(", ")} separately (one file per locale)`] : [];
+}
+
+/** Secret references become `${NAME}` placeholders for whoever deploys the export to fill in. */
+const placeholder = (ref?: string) => ref ? `\${${ref}}` : undefined;
+
+function actionAuth(a: CustomAction) {
+  const type = a.auth?.type ?? "none";
+  const { apiKey: k, oauth2: o, instructions } = a.auth || {};
+  if (type === "api_key") return {
+    type: "api_key", instructions,
+    ...(k && { authorization_type: k.in === "header" && k.name.toLowerCase() === "authorization" ? "bearer" : "custom", custom_auth_header: k.name, api_key: placeholder(k.secretRef) }),
+  };
+  if (type === "oauth2") return {
+    type: "oauth", instructions,
+    ...(o && { authorization_url: o.authorizationUrl, token_url: o.tokenUrl, scope: (o.scopes || []).join(" "), pkce: !!o.pkce, client_id: placeholder(o.clientIdRef), client_secret: placeholder(o.clientSecretRef) }),
+  };
+  return { type: "none" };
+}
+
+/** One-line auth summary for the brief: where the key goes, or the OAuth scopes. */
+function authSummary(a: CustomAction) {
+  const { type = "none", apiKey: k, oauth2: o } = a.auth || {};
+  if (type === "api_key" && k) return `api_key (${k.in} ${k.name}${k.secretRef ? ` ← ${k.secretRef}` : ""})`;
+  if (type === "oauth2" && o) return `oauth2 (${[o.scopes?.length ? `scopes ${o.scopes.join(" ")}` : "", o.pkce ? "PKCE" : ""].filter(Boolean).join(", ") || o.tokenUrl})`;
+  return type;
+}
+
+/** JSON */
+registerExporter({
+  id: "json", label: "JSON", extension: "json", mime: "application/json",
+  export: cfg => ({ content: JSON.stringify(cfg, null, 2), unsupported: [] }),
+});
+
+/** YAML */
+registerExporter({
+  id: "yaml", label: "YAML", extension: "yaml", mime: "application/yaml",
+  export: cfg => ({ content: toYAML(cfg), unsupported: [] }),
+});
+
+/** Markdown brief for reviewers */
+function mdCell(s: string) { return s.replace(/\|/g, "\\|").replace(/\n/g, " "); }
+function fence(s: string) { const f = s.includes("```") ? "~~~~" : "```"; return `${f}text\n${s}\n${f}`; }
+
+registerExporter({
+  id: "markdown", label: "Markdown brief", extension: "md", mime: "text/markdown",
+  export: cfg => {
+    const md: string[] = [`# ${cfg.name || "Untitled Custom GPT"}`, ""];
+    const unsupported: string[] = [];
+    if (cfg.description) md.push(`> ${cfg.description}`, "");
+    md.push("| Field | Value |", "| --- | --- |",
+      `| Schema version | ${mdCell(cfg.schemaVersion)} |`,
+      `| Language | ${mdCell(cfg.language || "—")} |`,
+      `| Translations | ${mdCell(Object.keys(cfg.locales || {}).join(", ") || "—")} |`,
+      `| Tags | ${mdCell((cfg.tags || []).join(", ") || "—")} |`);
+    if (cfg.createdAt) md.push(`| Created | ${mdCell(cfg.createdAt)} |`);
+    if (cfg.updatedAt) md.push(`| Updated | ${mdCell(cfg.updatedAt)} |`);
+    md.push("", "## Instructions", "", fence(cfg.instructions.trimEnd()), "");
+
+    const p = cfg.persona || {};
+    md.push("## Persona & Style", "", `- Tone: ${p.writingTone ?? "—"}`, `- Emoji use: ${p.emojiUse ?? "—"}`, `- Response length: ${p.responseLength ?? "—"}`, "");
+
+    md.push("## Tools", "");
+    const tools = cfg.builtInTools || [];
+    md.push(...(tools.length ? tools.map(t => `- ${TOOL_LABELS[t]}`) : ["_No built-in tools._"]), "");
+
+    const actions = cfg.customActions || [];
+    md.push("## Custom Actions", "");
+    if (actions.length) {
+      md.push("| Name | Type | Auth | Spec | Allowed domains | Rate limit | Description |", "| --- | --- | --- | --- | --- | --- | --- |");
+      actions.forEach((a, i) => {
+        const spec = a.specUrlOrInline ? (/^https?:\/\//.test(a.specUrlOrInline.trim()) ? a.specUrlOrInline.trim() : "inline") : "—";
+        if (spec === "inline") unsupported.push(`customActions.${i}.specUrlOrInline: inline specs are listed as "inline", not reproduced`);
+        const rate = a.rateLimitPerMinute !== undefined ? `${a.rateLimitPerMinute}/min` : "—";
+        md.push(`| ${mdCell(a.name)} | ${a.type} | ${mdCell(authSummary(a))} | ${mdCell(spec)} | ${mdCell((a.allowedDomains || []).join(", ") || "—")} | ${rate} | ${mdCell(a.description || "")} |`);
+      });
+      const notes = actions.filter(a => a.auth?.instructions?.trim());
+      if (notes.length) md.push("", "Auth instructions:", "", ...notes.map(a => `- **${a.name}**: ${mdCell(a.auth!.instructions!.trim())}`));
+    } else md.push("_None._");
+    md.push("");
+
+    md.push("## Knowledge", "");
+    if (cfg.knowledge?.enabled) {
+      md.push(...((cfg.knowledge.documents || []).map(d => isKnowledgeFile(d)
+        ? `- ${d.name} (${[d.mimeType, formatBytes(d.size), d.pages !== undefined && `${d.pages} pages`, d.rows !== undefined && `${d.rows} rows`, `sha256 ${d.sha256.slice(0, 12)}…`].filter(Boolean).join(", ")})`
+        : `- ${d}`)), ...(cfg.knowledge.documents?.length ? [] : ["_Enabled, no documents listed._"]));
+      if (cfg.knowledge.chunking) md.push("", `Chunking: ${cfg.knowledge.chunking.chunkSize} characters, ${cfg.knowledge.chunking.chunkOverlap} overlap`);
+    } else {
+      md.push("_Disabled._");
+      if (cfg.knowledge?.documents?.length) unsupported.push("knowledge.documents: not listed while knowledge is disabled");
+    }
+    md.push("");
+
+    const m = cfg.memory, s = cfg.safety || {};
+    md.push("## Memory & Safety", "",
+      `- Memory: ${m?.enabled ? `enabled (${m.scope ?? "user"} scope, ${m.dataRetentionDays ?? "—"} days retention)` : "disabled"}`,
+      `- Jailbreak defense: ${s.jailbreakDefense ? "on" : "off"}`,
+      `- Block disallowed content: ${s.blockDisallowedContent ? "on" : "off"}`,
+      `- PII redaction: ${s.piiRedaction ? "on" : "off"}`);
+    if (s.customDisallowedPhrases?.length) md.push(`- Disallowed phrases: ${s.customDisallowedPhrases.map(x => `\`${x}\``).join(", ")}`);
+    md.push("");
+
+    if (cfg.conversationStarters?.length) md.push("## Conversation Starters", "", ...cfg.conversationStarters.map(st => `- **${st.title}** — ${st.prompt}`), "");
+    if (cfg.sampleQuestions?.length) md.push("## Sample Questions", "", ...cfg.sampleQuestions.map(q => `- ${q}`), "");
+
+    const locales = Object.entries(cfg.locales || {});
+    if (locales.length) md.push("## Translations", "");
+    for (const [tag, o] of locales) {
+      md.push(`### ${tag}`, "");
+      if (o.name !== undefined) md.push(`- Name: ${o.name}`);
+      if (o.description !== undefined) md.push(`- Description: ${o.description}`);
+      if (o.name !== undefined || o.description !== undefined) md.push("");
+      if (o.instructions !== undefined) md.push("Instructions:", "", fence(o.instructions.trimEnd()), "");
+      if (o.conversationStarters) md.push("Conversation starters:", "", ...(o.conversationStarters.length ? o.conversationStarters.map(st => `- **${st.title}** — ${st.prompt}`) : ["_None._"]), "");
+      if (o.sampleQuestions) md.push("Sample questions:", "", ...(o.sampleQuestions.length ? o.sampleQuestions.map(q => `- ${q}`) : ["_None._"]), "");
+      if (Object.keys(o).length === 0) md.push("_No overrides; uses the default text._", "");
+    }
+    return { content: md.join("\n"), unsupported };
+  },
+});
+
+/** OpenAI GPT builder definition */
+registerExporter({
+  id: "openai-gpt", label: "OpenAI GPT builder", extension: "openai-gpt.json", mime: "application/json",
+  export: cfg => {
+    const unsupported: string[] = [];
+    const tools = cfg.builtInTools || [];
+    if (tools.includes("retrieval")) unsupported.push("builtInTools.retrieval: GPTs retrieve from uploaded knowledge files automatically");
+    if (tools.includes("vision")) unsupported.push("builtInTools.vision: image understanding is a model capability, not a toggle");
+    if (cfg.knowledge?.chunking) unsupported.push("knowledge.chunking: GPTs chunk knowledge files themselves");
+    const actions = (cfg.customActions || []).flatMap((a, i) => {
+      if (a.type !== "openapi") { unsupported.push(`customActions.${i}: GPT actions must be OpenAPI; "${a.type}" skipped`); return []; }
+      if (a.rateLimitPerMinute !== undefined) unsupported.push(`customActions.${i}.rateLimitPerMinute: not configurable on GPT actions`);
+      if (a.allowedDomains?.length) unsupported.push(`customActions.${i}.allowedDomains: GPT actions take their domain from the spec`);
+      if (a.auth?.type === "api_key" && a.auth.apiKey?.in === "query") unsupported.push(`customActions.${i}.auth.apiKey.in: GPT actions send API keys in a header`);
+      const spec = (a.specUrlOrInline || "").trim();
+      const isUrl = /^https?:\/\//.test(spec);
+      return [{ name: a.name, description: a.description, ...(isUrl ? { schema_url: spec } : { schema: spec }), authentication: actionAuth(a), privacy_policy_url: "" }];
+    });
+    unsupported.push(...dropped(cfg, ["language", "persona", "safety", "memory", "sampleQuestions", "tags"], "not part of the GPT builder; fold it into instructions if needed"));
+    unsupported.push(...perLocale(cfg));
+    const payload = {
+      name: cfg.name,
+      description: cfg.description || "",
+      instructions: cfg.instructions,
+      conversation_starters: (cfg.conversationStarters || []).map(s => s.prompt),
+      capabilities: { web_browsing: tools.includes("web"), dalle_image_generation: tools.includes("image"), code_interpreter: tools.includes("code") },
+      knowledge_files: cfg.knowledge?.enabled ? (cfg.knowledge.documents || []).map(documentName) : [],
+      actions,
+    };
+    return { content: JSON.stringify(payload, null, 2), unsupported };
+  },
+});
+
+/** OpenAI Assistants API create payload */
+registerExporter({
+  id: "openai-assistant", label: "OpenAI Assistant", extension: "assistant.json", mime: "application/json",
+  export: cfg => {
+    const unsupported: string[] = [];
+    const builtIn = cfg.builtInTools || [];
+    const tools: object[] = [];
+    if (builtIn.includes("code")) tools.push({ type: "code_interpreter" });
+    if (builtIn.includes("retrieval") || cfg.knowledge?.enabled) tools.push({ type: "file_search" });
+    if (builtIn.includes("web")) unsupported.push("builtInTools.web: Assistants have no browsing tool");
+    if (builtIn.includes("image")) unsupported.push("builtInTools.image: Assistants have no image generation tool");
+    if (builtIn.includes("vision")) unsupported.push("builtInTools.vision: pick a vision-capable model instead");
+    (cfg.customActions || []).forEach((a, i) => {
+      tools.push({ type: "function", function: { name: slug(a.name), description: a.description || `${a.type} action ${a.name}`, parameters: { type: "object", properties: {} } } });
+      unsupported.push(`customActions.${i}: spec, auth and rate limit are not carried into the function definition`);
+    });
+    if (cfg.knowledge?.documents?.length) unsupported.push("knowledge.documents: upload files to a vector store and attach it separately");
+    if (cfg.knowledge?.chunking) unsupported.push("knowledge.chunking: set the chunking strategy when adding files to the vector store");
+    unsupported.push(...dropped(cfg, ["conversationStarters", "sampleQuestions"], "Assistants have no starters"));
+    unsupported.push(...dropped(cfg, ["persona", "safety", "language"], "only expressible through instructions"));
+    if (cfg.memory?.enabled) unsupported.push("memory: Assistants keep state per thread only");
+    unsupported.push(...perLocale(cfg));
+    const payload = {
+      model: "gpt-4o",
+      name: cfg.name,
+      description: cfg.description || null,
+      instructions: cfg.instructions,
+      tools,
+      metadata: { schemaVersion: cfg.schemaVersion, tags: (cfg.tags || []).join(",").slice(0, 512) },
+    };
+    return { content: JSON.stringify(payload, null, 2), unsupported };
+  },
+});
+
+/** Plain system prompt bundle for any chat-completion style vendor */
+registerExporter({
+  id: "system-prompt", label: "System prompt (plain text)", extension: "prompt.txt", mime: "text/plain",
+  export: cfg => {
+    const unsupported: string[] = [];
+    if (cfg.builtInTools?.length || cfg.customActions?.length) unsupported.push("builtInTools/customActions: listed in the prompt only; wire them up in the target vendor");
+    if (cfg.memory?.enabled) unsupported.push("memory: persistence must be provided by the host application");
+    unsupported.push(...dropped(cfg, ["description", "tags"], "metadata, not part of the prompt"));
+    unsupported.push(...perLocale(cfg));
+    const starters = (cfg.conversationStarters || []).map(s => `- ${s.title}: ${s.prompt}`);
+    const body = [`### ${cfg.name} — system prompt`, "", compilePrompt(cfg).text];
+    if (starters.length || cfg.sampleQuestions?.length) body.push("", "### Suggested opening prompts (not part of the system prompt)", "", ...starters, ...(cfg.sampleQuestions || []).map(q => `- ${q}`));
+    return { content: body.join("\n") + "\n", unsupported };
+  },
+});
@@ -0,0 +1,22 @@
+/** Undo/redo stack over immutable values. `present` is the last recorded state. */
+export type History<T> = { past: T[]; present: T; future: T[] };
+
+export const HISTORY_LIMIT = 100;
+
+export function initHistory<T>(present: T): History<T> { return { past: [], present, future: [] }; }
+
+/** Records a new present; a no-op when `same` says nothing changed. Recording clears the redo stack. */
+export function record<T>(h: History<T>, next: T, same: (a: T, b: T) => boolean, limit = HISTORY_LIMIT): History<T> {
+  if (same(h.present, next)) return h;
+  return { past: [...h.past, h.present].slice(-limit), present: next, future: [] };
+}
+
+export function undo<T>(h: History<T>): History<T> {
+  if (!h.past.length) return h;
+  return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+  if (!h.future.length) return h;
+  return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) };
+}
@@ -0,0 +1,38 @@
+/**
+ * Framework-free core: types, build/normalize, parse (with schema migration), validate and export.
+ * Shared by the React editor and the CLI; nothing here touches the DOM or Node APIs.
+ */
+export * from "./types";
+export { defaultConfig } from "./defaults";
+export { buildConfig, normalizeConfig, toolsFromToggles, type ToolToggles } from "./build";
+export { parseConfig, readConfig, type ParseResult } from "./parseConfig";
+export { CURRENT_SCHEMA_VERSION, MIGRATIONS, migrateConfig, type Migration, type MigrationResult, type MigrationStep } from "./migrations";
+export { configJsonSchema } from "./schema";
+export { countBySeverity, isHttpUrl, isLanguageTag, issuesUnder, validateConfig } from "./validate";
+export { checkSpecAuth, inspectActionSpec, looksLikeUrl, parseGraphQLSDL, parseOpenAPI, type SpecOperation, type SpecReport, type SpecSecurityScheme } from "./specs";
+export {
+  DEFAULT_LONG_RETENTION_DAYS, lintPolicy, POLICY_RULES, policyIssues, RISK_SEVERITIES, riskLevel, riskScore, ruleSeverity,
+  type PolicyFinding, type PolicyReport, type PolicyRule, type PolicySettings, type RiskSeverity,
+} from "./policy";
+export { compilePrompt, DEFAULT_PROMPT_BUDGET, estimateTokens, TOOL_LABELS, type CompiledPrompt, type PromptSection, type PromptSectionId } from "./prompt";
+export {
+  bundleKnowledge, chunkText, countCsvRows, DEFAULT_CHUNKING, documentName, extractPdfText, formatBytes, ingestKnowledgeFile, isKnowledgeFile,
+  KNOWLEDGE_MIME_TYPES, MAX_KNOWLEDGE_FILE_BYTES, type IngestedFile, type TextChunk,
+} from "./knowledge";
+export { createZip, crc32, type ZipEntry } from "./zip";
+export {
+  chatMessages, DEFAULT_PLAYGROUND, PlaygroundError, runStarters, streamChat,
+  type ChatMessage, type PlaygroundSettings, type Transcript, type TranscriptRun,
+} from "./playground";
+export { isSecretRef, REDACTED, redactSecrets, scanSecrets, secretIssues, type SecretFinding } from "./secrets";
+export {
+  decodeShare, encodeShare, readShareFragment, secretPaths, SHARE_LINK_WARN_LENGTH, SHARE_MODES, shareUrl, stripSecrets, type ShareMode,
+} from "./share";
+export {
+  configLocales, defaultLocale, exportLocales, isRtlLocale, localeFileName, LOCALIZED_FIELDS, localizeConfig, resolveLocale, textDirection, untranslatedFields,
+  type LocaleExport, type LocalizedField,
+} from "./locales";
+export { exportConfig, getExporter, listExporters, registerExporter, type Exporter, type ExportResult } from "./exporters";
+export { diffConfigs, lineDiff, type ConfigDiff, type DiffLine, type FieldChange } from "./diff";
+export { parseYAML, toYAML, YAMLError } from "./yaml";
+export { applyTemplate, getTemplate, layerSafety, mergeConfig, templateConfig, TEMPLATES, type ApplyMode, type Template } from "./templates";
@@ -0,0 +1,97 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { bundleKnowledge, chunkText, countCsvRows, documentName, extractPdfText, formatBytes, ingestKnowledgeFile } from "./knowledge";
+import type { KnowledgeFile } from "./types";
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+const latin1 = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+
+/** A one-page PDF whose content stream is `content`, optionally deflated. */
+function pdf(content: string, deflate = false) {
+  const data = deflate ? deflateSync(latin1(content)) : latin1(content);
+  const head = latin1(`%PDF-1.4\n1 0 obj << /Type /Pages /Kids [2 0 R] >> endobj\n2 0 obj << /Type /Page /Contents 3 0 R >> endobj\n3 0 obj << /Length ${data.length}${deflate ? " /Filter /FlateDecode" : ""} >> stream\n`);
+  const tail = latin1("\nendstream endobj\n%%EOF");
+  const out = new Uint8Array(head.length + data.length + tail.length);
+  out.set(head); out.set(data, head.length); out.set(tail, head.length + data.length);
+  return out;
+}
+
+describe("chunkText", () => {
+  it("splits into overlapping chunks that end on whitespace", () => {
+    const text = "alpha beta gamma delta epsilon";
+    const chunks = chunkText(text, { chunkSize: 12, chunkOverlap: 4 });
+    expect(chunks.map(c => c.text)).toEqual(["alpha beta ", "eta gamma ", "mma delta ", "lta epsilon"]);
+    for (const c of chunks) expect(text.slice(c.start, c.end)).toBe(c.text);
+    expect(chunks.map(c => c.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it("cuts mid-word when no whitespace falls in the second half", () => {
+    expect(chunkText("abcdefghij", { chunkSize: 4, chunkOverlap: 0 }).map(c => c.text)).toEqual(["abcd", "efgh", "ij"]);
+  });
+
+  it("always moves forward, even with an overlap as large as the chunk", () => {
+    const chunks = chunkText("abcdef", { chunkSize: 2, chunkOverlap: 5 });
+    expect(chunks.map(c => c.start)).toEqual([0, 1, 2, 3, 4]);
+    expect(chunkText("", { chunkSize: 10, chunkOverlap: 2 })).toEqual([]);
+  });
+});
+
+describe("countCsvRows", () => {
+  it.each([
+    ["", 0],
+    ["a,b", 0],
+    ["a,b\n1,2\n3,4\n", 2],
+    ["a,b\r\n1,2\r\n\r\n3,4", 2],
+    ['a,b\n"multi\nline",2\n3,4', 2],
+  ])("counts %j as %i data rows", (text, rows) => {
+    expect(countCsvRows(text)).toBe(rows);
+  });
+});
+
+describe("extractPdfText", () => {
+  it("reads text operators from plain and deflated content streams", async () => {
+    const content = "BT /F1 12 Tf (Hello \\(PDF\\)) Tj T* [(Wor) -250 (ld)] TJ <414243> Tj ET";
+    for (const deflate of [false, true]) {
+      expect(await extractPdfText(pdf(content, deflate))).toEqual({ text: "Hello (PDF)\nWor ldABC", pages: 1 });
+    }
+  });
+
+  it("yields no text when there are no content streams", async () => {
+    expect(await extractPdfText(bytes("not a pdf"))).toEqual({ text: "", pages: 0 });
+  });
+});
+
+describe("ingestKnowledgeFile", () => {
+  it("hashes files and adds rows for CSV and pages for PDF", async () => {
+    const csv = await ingestKnowledgeFile("prices.csv", bytes("sku,price\na,1\n"));
+    expect(csv).toEqual({ file: { name: "prices.csv", mimeType: "text/csv", size: 14, sha256: expect.stringMatching(/^[\da-f]{64}$/), rows: 1 }, text: "sku,price\na,1\n" });
+    const doc = await ingestKnowledgeFile("Guide.PDF", pdf("BT (Hi) Tj ET"));
+    expect(doc).toMatchObject({ file: { mimeType: "application/pdf", pages: 1 }, text: "Hi" });
+  });
+
+  it("keeps the browser's MIME type and rejects unknown extensions", async () => {
+    expect(await ingestKnowledgeFile("notes.md", bytes("# Hi"), "text/x-markdown")).toMatchObject({ file: { mimeType: "text/x-markdown" } });
+    expect(await ingestKnowledgeFile("slides.pptx", bytes(""))).toEqual({ error: "slides.pptx: unsupported file type (use .txt, .md, .csv, .pdf)" });
+  });
+});
+
+describe("bundleKnowledge", () => {
+  const file = (name: string, sha: string): KnowledgeFile => ({ name, mimeType: "text/plain", size: 1, sha256: sha.repeat(64) });
+  const cfg = buildConfig({ knowledge: { enabled: true, documents: ["hint.md", file("a.txt", "1"), file("a.txt", "2"), file("copy.txt", "1"), file("gone.txt", "3")] } });
+  const names = (zip: Uint8Array) => [...new TextDecoder().decode(zip).matchAll(/config\.json|knowledge\/[\w-]+\.txt/g)].map(m => m[0]);
+
+  it("zips the config with each distinct file, renaming clashes and listing what is missing", () => {
+    const { zip, missing } = bundleKnowledge(cfg, new Map([["1".repeat(64), bytes("1")], ["2".repeat(64), bytes("2")]]), new Date(2024, 0, 1));
+    expect(missing).toEqual(["gone.txt"]);
+    expect(names(zip)).toEqual(["config.json", "knowledge/a.txt", "knowledge/a-22222222.txt", "config.json", "knowledge/a.txt", "knowledge/a-22222222.txt"]);
+  });
+});
+
+describe("formatting", () => {
+  it("formats sizes and document names", () => {
+    expect([0, 1023, 1536, 5 * 1024 * 1024].map(formatBytes)).toEqual(["0 B", "1023 B", "1.5 KB", "5.0 MB"]);
+    expect(documentName("hint.md")).toBe("hint.md");
+    expect(documentName({ name: "a.txt", mimeType: "text/plain", size: 1, sha256: "" })).toBe("a.txt");
+  });
+});
@@ -0,0 +1,160 @@
+import type { ChunkingSettings, CustomGPTConfig, KnowledgeDocument, KnowledgeFile } from "./types";
+import { createZip, type ZipEntry } from "./zip";
+
+export const DEFAULT_CHUNKING: ChunkingSettings = { chunkSize: 1000, chunkOverlap: 200 };
+/** Files above this are flagged; most hosted retrieval tools reject or truncate them. */
+export const MAX_KNOWLEDGE_FILE_BYTES = 20 * 1024 * 1024;
+
+/** Supported attachments by extension. */
+export const KNOWLEDGE_MIME_TYPES: Record<string, string> = { txt: "text/plain", md: "text/markdown", csv: "text/csv", pdf: "application/pdf" };
+
+export function isKnowledgeFile(d: KnowledgeDocument): d is KnowledgeFile { return typeof d !== "string"; }
+export function documentName(d: KnowledgeDocument) { return typeof d === "string" ? d : d.name; }
+
+export function formatBytes(n: number) {
+  return n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function sha256Hex(bytes: Uint8Array) {
+  if (!globalThis.crypto?.subtle) throw new Error("file hashing needs a secure (HTTPS or localhost) page");
+  const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Data rows in a CSV (header excluded), honouring quoted fields that span lines. */
+export function countCsvRows(text: string) {
+  let rows = 0, quoted = false, content = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') quoted = !quoted;
+    if (!quoted && (c === "\n" || c === "\r")) {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      if (content) rows++;
+      content = false;
+    } else content = true;
+  }
+  if (content) rows++;
+  return Math.max(0, rows - 1);
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof DecompressionStream === "undefined") return null;
+  try { return new Uint8Array(await new Response(new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate"))).arrayBuffer()); }
+  catch { return null; }
+}
+
+function unescapePdfString(s: string) {
+  return s.replace(/\\(?:([nrtbf()\\])|([0-7]{1,3})|\r?\n)/g, (_, c: string | undefined, oct: string | undefined) => {
+    if (oct) return String.fromCharCode(parseInt(oct, 8));
+    if (!c) return "";
+    return ({ n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" } as Record<string, string>)[c] ?? c;
+  });
+}
+
+/** Text shown by a content stream's BT…ET blocks. Hex strings are kept only when they decode to printable text. */
+function contentText(stream: string) {
+  let out = "";
+  for (const [, block] of stream.matchAll(/\bBT\b([^]*?)\bET\b/g)) {
+    // Large negative TJ offsets are word gaps
+    for (const [tok] of block.matchAll(/\((?:\\[^]|[^\\)])*\)|<[\da-fA-F\s]+>|-[1-9]\d{2,}(?:\.\d+)?|\bT(?:[dD]\b|\*)|'|"/g)) {
+      if (tok.startsWith("(")) out += unescapePdfString(tok.slice(1, -1));
+      else if (tok.startsWith("-")) { if (!/\s$/.test(out)) out += " "; }
+      else if (tok.startsWith("<")) {
+        const hex = tok.slice(1, -1).replace(/\s/g, "");
+        const str = hex.match(/../g)?.map(h => String.fromCharCode(parseInt(h, 16))).join("") ?? "";
+        if (/^[\x20-\x7e]*$/.test(str)) out += str;
+      } else if (!out.endsWith("\n")) out += "\n";
+    }
+    if (!out.endsWith("\n")) out += "\n";
+  }
+  return out;
+}
+
+/**
+ * Best-effort text and page count from a PDF without a PDF library: reads (and inflates) content streams and
+ * collects the strings drawn by text operators. Scanned PDFs and CID-encoded fonts yield little or no text.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<{ text: string; pages: number }> {
+  const latin1 = new TextDecoder("latin1");
+  const raw = latin1.decode(bytes);
+  const bodies = [raw];
+  let text = "";
+  for (const m of raw.matchAll(/\bobj\s*<<([^]*?)>>\s*stream\r?\n/g)) {
+    const start = m.index! + m[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) continue;
+    const data = bytes.subarray(start, end);
+    const body = /\/FlateDecode/.test(m[1]) ? await inflate(data) : /\/Filter/.test(m[1]) ? null : data;
+    if (!body) continue;
+    const decoded = latin1.decode(body);
+    bodies.push(decoded);
+    text += contentText(decoded);
+  }
+  // Page objects may sit in compressed object streams, so count them in every decoded body
+  const pages = bodies.reduce((n, b) => n + (b.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0), 0);
+  return { text: text.replace(/[ \t]+\n/g, "\n").trim(), pages };
+}
+
+export type IngestedFile = { file: KnowledgeFile; text: string };
+
+/** Reads an attachment into a `KnowledgeFile` record plus its plain text for chunking. */
+export async function ingestKnowledgeFile(name: string, bytes: Uint8Array, mimeType?: string): Promise<IngestedFile | { error: string }> {
+  const ext = name.toLowerCase().split(".").pop() ?? "";
+  const type = KNOWLEDGE_MIME_TYPES[ext];
+  if (!type) return { error: `${name}: unsupported file type (use ${Object.keys(KNOWLEDGE_MIME_TYPES).map(e => `.${e}`).join(", ")})` };
+  const file: KnowledgeFile = { name, mimeType: mimeType || type, size: bytes.length, sha256: await sha256Hex(bytes) };
+  if (type === "application/pdf") {
+    const { text, pages } = await extractPdfText(bytes);
+    return { file: { ...file, pages }, text };
+  }
+  const text = new TextDecoder("utf-8").decode(bytes);
+  return { file: type === "text/csv" ? { ...file, rows: countCsvRows(text) } : file, text };
+}
+
+export type TextChunk = { index: number; start: number; end: number; text: string };
+
+/** Fixed-size chunks with overlap, ending on whitespace when one falls in the chunk's second half. */
+export function chunkText(text: string, { chunkSize, chunkOverlap }: ChunkingSettings): TextChunk[] {
+  const size = Math.max(1, Math.floor(chunkSize));
+  const overlap = Math.min(Math.max(0, Math.floor(chunkOverlap)), size - 1);
+  const out: TextChunk[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + size);
+    if (end < text.length) {
+      for (let i = end; i > start + size / 2; i--) if (/\s/.test(text[i - 1])) { end = i; break; }
+    }
+    out.push({ index: out.length, start, end, text: text.slice(start, end) });
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return out;
+}
+
+/** Zip path for each attached file; names that collide get the start of their hash appended. */
+function bundlePaths(files: KnowledgeFile[]) {
+  const used = new Set<string>();
+  return files.map(f => {
+    const safe = f.name.replace(/[\\/:*?"<>|]+/g, "_");
+    const dot = safe.lastIndexOf(".");
+    const path = used.has(safe.toLowerCase()) && dot > 0 ? `${safe.slice(0, dot)}-${f.sha256.slice(0, 8)}${safe.slice(dot)}` : safe;
+    used.add(path.toLowerCase());
+    return `knowledge/${path}`;
+  });
+}
+
+/**
+ * Zips `config.json` with every attached knowledge file whose contents are in `contents` (keyed by sha256).
+ * `missing` names the attached files that could not be included.
+ */
+export function bundleKnowledge(cfg: CustomGPTConfig, contents: Map<string, Uint8Array>, date = new Date()): { zip: ReturnType<typeof createZip>; missing: string[] } {
+  const files = (cfg.knowledge?.documents || []).filter(isKnowledgeFile).filter((f, i, all) => all.findIndex(x => x.sha256 === f.sha256) === i);
+  const paths = bundlePaths(files);
+  const entries: ZipEntry[] = [{ name: "config.json", data: new TextEncoder().encode(JSON.stringify(cfg, null, 2)) }];
+  const missing: string[] = [];
+  files.forEach((f, i) => {
+    const data = contents.get(f.sha256);
+    if (data) entries.push({ name: paths[i], data }); else missing.push(f.name);
+  });
+  return { zip: createZip(entries, date), missing };
+}
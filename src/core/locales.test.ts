@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { configLocales, defaultLocale, exportLocales, isRtlLocale, localizeConfig, resolveLocale, textDirection, untranslatedFields } from "./locales";
+
+const cfg = buildConfig({
+  name: "Helper", description: "Answers questions.", instructions: "Be brief.", language: "en",
+  conversationStarters: [{ title: "Start", prompt: "Where do I begin?" }], sampleQuestions: ["How?"],
+  locales: {
+    ur: { name: "مددگار", instructions: "مختصر رہیں۔" },
+    "ur-PK": { instructions: "پاکستان کے لیے مختصر رہیں۔", sampleQuestions: [] },
+    fr: { name: "Aide" },
+  },
+});
+
+describe("locale lists", () => {
+  it("puts the default locale first, then translations in order", () => {
+    expect(defaultLocale(cfg)).toBe("en");
+    expect(configLocales(cfg)).toEqual(["en", "ur", "ur-PK", "fr"]);
+    expect(defaultLocale(buildConfig({ language: " " }))).toBe("en");
+  });
+
+  it("resolves least specific first, ignoring case", () => {
+    expect(resolveLocale(cfg, "ur-pk")).toEqual(["ur", "ur-PK"]);
+    expect(resolveLocale(cfg, "UR")).toEqual(["ur"]);
+    expect(resolveLocale(cfg, "de")).toEqual([]);
+  });
+});
+
+describe("localizeConfig", () => {
+  it("layers the region over the language over the default text", () => {
+    const out = localizeConfig(cfg, "ur-PK");
+    expect(out).toMatchObject({ language: "ur-PK", name: "مددگار", instructions: "پاکستان کے لیے مختصر رہیں۔", description: "Answers questions.", sampleQuestions: [] });
+    expect(out.conversationStarters).toEqual(cfg.conversationStarters);
+    expect(out.locales).toBeUndefined();
+  });
+
+  it("falls back to the default text for fields and locales without overrides", () => {
+    expect(localizeConfig(cfg, "fr")).toMatchObject({ name: "Aide", instructions: "Be brief.", sampleQuestions: ["How?"] });
+    const de = localizeConfig(cfg, "de");
+    const { locales, ...rest } = cfg;
+    expect(de).toEqual({ ...rest, language: "de" });
+  });
+
+  it("leaves the source config untouched", () => {
+    localizeConfig(cfg, "ur-PK");
+    expect(cfg.name).toBe("Helper");
+    expect(cfg.locales?.ur.name).toBe("مددگار");
+  });
+});
+
+describe("untranslatedFields", () => {
+  it("lists default-locale fields no override covers", () => {
+    expect(untranslatedFields(cfg, "en")).toEqual([]);
+    expect(untranslatedFields(cfg, "fr")).toEqual(["description", "instructions", "conversationStarters", "sampleQuestions"]);
+    expect(untranslatedFields(cfg, "ur-PK")).toEqual(["description", "conversationStarters"]);
+  });
+});
+
+describe("text direction", () => {
+  it.each([["ar", true], ["ur-PK", true], ["he", true], ["pa-Arab", true], ["az-Latn", false], ["en", false], ["fr-CA", false]])("%s is RTL: %s", (tag, rtl) => {
+    expect(isRtlLocale(tag)).toBe(rtl);
+    expect(textDirection(tag)).toBe(rtl ? "rtl" : "ltr");
+  });
+});
+
+describe("exportLocales", () => {
+  it("writes one complete single-language export per locale", () => {
+    const files = exportLocales(cfg, "json", "Helper");
+    expect(files.map(f => f.fileName)).toEqual(["Helper.en.json", "Helper.ur.json", "Helper.ur-PK.json", "Helper.fr.json"]);
+    expect(JSON.parse(files[3].result.content)).toMatchObject({ name: "Aide", language: "fr" });
+    expect(JSON.parse(files[0].result.content).locales).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import type { CustomGPTConfig, LocaleOverrides } from "./types";
+import { exportConfig, getExporter, type ExportResult } from "./exporters";
+
+/** The fields a locale may override; everything else is shared by every locale. */
+export type LocalizedField = keyof LocaleOverrides;
+export const LOCALIZED_FIELDS: LocalizedField[] = ["name", "description", "instructions", "conversationStarters", "sampleQuestions"];
+
+/** The config's own language is the default locale; its main fields are the fallback for every other locale. */
+export function defaultLocale(cfg: CustomGPTConfig) { return cfg.language?.trim() || "en"; }
+
+/** The default locale first, then each translated locale in the order it was added. */
+export function configLocales(cfg: CustomGPTConfig): string[] {
+  const base = defaultLocale(cfg);
+  return [base, ...Object.keys(cfg.locales || {}).filter(t => t.toLowerCase() !== base.toLowerCase())];
+}
+
+/**
+ * The override keys that apply to `locale`, least specific first: `ur` then `ur-PK` for `ur-PK`.
+ * Tags match case-insensitively; an empty list means the default locale's text is used throughout.
+ */
+export function resolveLocale(cfg: CustomGPTConfig, locale: string): string[] {
+  const keys = Object.keys(cfg.locales || {});
+  const parts = locale.trim().split("-");
+  return parts.flatMap((_, i) => {
+    const prefix = parts.slice(0, i + 1).join("-").toLowerCase();
+    return keys.filter(k => k.toLowerCase() === prefix);
+  });
+}
+
+const hasText = (v: LocaleOverrides[LocalizedField]) => Array.isArray(v) ? v.length > 0 : !!v?.trim();
+
+function copyField<K extends LocalizedField>(to: LocaleOverrides, from: LocaleOverrides, k: K) {
+  const v = from[k];
+  if (v !== undefined) to[k] = v;
+}
+
+/** A single-language config for `locale`: overrides applied over the default text, `language` set, `locales` removed. */
+export function localizeConfig(cfg: CustomGPTConfig, locale: string): CustomGPTConfig {
+  const { locales, ...base } = cfg;
+  const out: CustomGPTConfig = { ...base, language: locale.trim() || defaultLocale(cfg) };
+  for (const key of resolveLocale(cfg, locale)) {
+    const o = locales![key];
+    for (const f of LOCALIZED_FIELDS) copyField(out, o, f);
+  }
+  return out;
+}
+
+/** Fields the default locale fills in but no override for `locale` translates. Always empty for the default locale. */
+export function untranslatedFields(cfg: CustomGPTConfig, locale: string): LocalizedField[] {
+  if (locale.toLowerCase() === defaultLocale(cfg).toLowerCase()) return [];
+  const keys = resolveLocale(cfg, locale);
+  return LOCALIZED_FIELDS.filter(f => hasText(cfg[f]) && !keys.some(k => cfg.locales![k][f] !== undefined));
+}
+
+// Languages written right to left, and the scripts that make a tag RTL whatever its language (e.g. `pa-Arab`)
+const RTL_LANGUAGES = new Set(["ar", "arc", "ckb", "dv", "fa", "he", "ks", "ku", "ps", "sd", "ug", "ur", "yi"]);
+const RTL_SCRIPTS = new Set(["arab", "hebr", "nkoo", "syrc", "thaa"]);
+
+export function isRtlLocale(tag: string) {
+  const [lang, ...rest] = tag.trim().toLowerCase().split("-");
+  const script = rest.find(p => p.length === 4 && /^[a-z]+$/.test(p));
+  return script ? RTL_SCRIPTS.has(script) : RTL_LANGUAGES.has(lang);
+}
+
+/** For the HTML `dir` attribute. */
+export function textDirection(tag: string): "rtl" | "ltr" { return isRtlLocale(tag) ? "rtl" : "ltr"; }
+
+/** `<base>.<locale>.<extension>`, e.g. `Helper.ur.openai-gpt.json`. */
+export function localeFileName(base: string, locale: string, extension: string) { return `${base}.${locale}.${extension}`; }
+
+export type LocaleExport = { locale: string; fileName: string; result: ExportResult };
+
+/** One export per locale in `format`, each from `localizeConfig`, so every file is a complete single-language config. */
+export function exportLocales(cfg: CustomGPTConfig, format: string, base: string): LocaleExport[] {
+  const extension = (getExporter(format) ?? getExporter("json")!).extension;
+  return configLocales(cfg).map(locale => ({ locale, fileName: localeFileName(base, locale, extension), result: exportConfig(localizeConfig(cfg, locale), format) }));
+}
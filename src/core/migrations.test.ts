@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, MIGRATIONS, migrateConfig } from "./migrations";
+import { parseConfig } from "./parseConfig";
+
+const base = { name: "Helper", instructions: "Be brief.", createdAt: "2024-01-01T00:00:00.000Z" };
+
+describe("migrateConfig", () => {
+  it("chains every version up to the current one", () => {
+    expect(CURRENT_SCHEMA_VERSION).toBe("1.4");
+    expect(MIGRATIONS.map(m => `${m.from}>${m.to}`)).toEqual(["1.0>1.1", "1.1>1.2", "1.2>1.3", "1.3>1.4"]);
+  });
+
+  it.each([
+    ["1.0", ["1.0", "1.1", "1.2", "1.3"]],
+    ["1.1", ["1.1", "1.2", "1.3"]],
+    ["1.2", ["1.2", "1.3"]],
+    ["1.3", ["1.3"]],
+  ])("upgrades %s to 1.4 one step at a time", (from, stepsFrom) => {
+    const res = migrateConfig({ ...base, schemaVersion: from });
+    expect(res.error).toBeUndefined();
+    expect(res).toMatchObject({ from, to: "1.4", doc: { schemaVersion: "1.4" } });
+    expect(res.steps.map(s => s.from)).toEqual(stepsFrom);
+  });
+
+  it("treats a document without a version as 1.0", () => {
+    const res = migrateConfig(base);
+    expect(res.from).toBe("1.0");
+    expect(res.steps).toHaveLength(4);
+  });
+
+  it("leaves a current document alone", () => {
+    const doc = { ...base, schemaVersion: "1.4" };
+    expect(migrateConfig(doc)).toEqual({ doc, from: "1.4", to: "1.4", steps: [] });
+  });
+
+  it("1.0 -> 1.1 adds updatedAt and normalizes action domains", () => {
+    const res = migrateConfig({ ...base, schemaVersion: "1.0", customActions: [{ name: "a", allowedDomains: [" API.Example.com", "api.example.com", "Other.io"] }, { name: "b", allowedDomains: ["ok.io"] }] });
+    expect(res.doc).toMatchObject({ updatedAt: base.createdAt, customActions: [{ allowedDomains: ["api.example.com", "other.io"] }, { allowedDomains: ["ok.io"] }] });
+    expect(res.steps[0].changes).toEqual(["Added updatedAt (copied from createdAt)", "Normalized customActions.0.allowedDomains to lowercase, unique hostnames"]);
+  });
+
+  it("1.0 -> 1.1 keeps an existing updatedAt", () => {
+    const res = migrateConfig({ ...base, schemaVersion: "1.0", updatedAt: "2024-02-01T00:00:00.000Z" });
+    expect(res.doc).toMatchObject({ updatedAt: "2024-02-01T00:00:00.000Z" });
+    expect(res.steps[0].changes).toEqual([]);
+  });
+
+  it("refuses versions it cannot upgrade", () => {
+    expect(migrateConfig({ ...base, schemaVersion: "2.0" }).error).toMatch(/newer than this app supports/);
+    expect(migrateConfig({ ...base, schemaVersion: "v1" }).error).toMatch(/Unrecognized schemaVersion/);
+    expect(migrateConfig({ ...base, schemaVersion: "1.0.5" }).error).toMatch(/No migration from schemaVersion 1.0.5/);
+  });
+});
+
+describe("parseConfig migrations", () => {
+  it.each(["1.0", "1.1", "1.2", "1.3"])("reads a %s document as 1.4 without issues", from => {
+    const res = parseConfig(JSON.stringify({ ...base, schemaVersion: from }));
+    expect(res.issues).toEqual([]);
+    expect(res.config?.schemaVersion).toBe("1.4");
+    expect(res.migrations[res.migrations.length - 1].to).toBe("1.4");
+  });
+
+  it("reads an unsupported version as current, with a warning", () => {
+    const res = parseConfig(JSON.stringify({ ...base, schemaVersion: "9.0" }));
+    expect(res.config?.schemaVersion).toBe("1.4");
+    expect(res.issues).toEqual([{ path: "schemaVersion", severity: "warning", message: expect.stringContaining("reading it as 1.4") }]);
+  });
+});
@@ -0,0 +1,77 @@
+/** Schema versions and the upgrade chain between them. Migrations run on raw JSON, before parsing. */
+
+export const CURRENT_SCHEMA_VERSION = "1.4";
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** One upgrade step. `migrate` returns the upgraded document and pushes a note per change it made. */
+export type Migration = { from: string; to: string; migrate: (doc: Obj, notes: string[]) => Obj };
+export type MigrationStep = { from: string; to: string; changes: string[] };
+export type MigrationResult = { doc: unknown; from: string; to: string; steps: MigrationStep[]; error?: string };
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // 1.1: documents carry `updatedAt`; action domains are stored as lowercase, unique hostnames
+    from: "1.0", to: "1.1",
+    migrate(doc, notes) {
+      const out: Obj = { ...doc };
+      if (out.updatedAt === undefined && typeof out.createdAt === "string") {
+        out.updatedAt = out.createdAt;
+        notes.push("Added updatedAt (copied from createdAt)");
+      }
+      if (Array.isArray(out.customActions)) {
+        out.customActions = out.customActions.map((a, i) => {
+          if (!isObj(a) || !Array.isArray(a.allowedDomains)) return a;
+          const domains = [...new Set(a.allowedDomains.map(d => typeof d === "string" ? d.trim().toLowerCase() : d))];
+          if (JSON.stringify(domains) !== JSON.stringify(a.allowedDomains)) notes.push(`Normalized customActions.${i}.allowedDomains to lowercase, unique hostnames`);
+          return { ...a, allowedDomains: domains };
+        });
+      }
+      return out;
+    },
+  },
+  {
+    // 1.2: knowledge documents may be file records; existing names stay valid as name-only hints
+    from: "1.1", to: "1.2",
+    migrate: doc => doc,
+  },
+  {
+    // 1.3: optional per-locale overrides; a config without `locales` reads the same
+    from: "1.2", to: "1.3",
+    migrate: doc => doc,
+  },
+  {
+    // 1.4: action auth may carry structured api_key / oauth2 settings with secret references; instructions stay as written
+    from: "1.3", to: "1.4",
+    migrate: doc => doc,
+  },
+];
+
+function compareVersions(a: string, b: string) {
+  const pa = a.split(".").map(Number), pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const d = (pa[i] || 0) - (pb[i] || 0);
+    if (d) return Math.sign(d);
+  }
+  return 0;
+}
+
+/** Upgrades a raw document to CURRENT_SCHEMA_VERSION. Documents without a version are treated as 1.0. */
+export function migrateConfig(raw: unknown): MigrationResult {
+  if (!isObj(raw)) return { doc: raw, from: "", to: "", steps: [] };
+  const from = typeof raw.schemaVersion === "string" ? raw.schemaVersion : "1.0";
+  if (!/^\d+(\.\d+)*$/.test(from)) return { doc: raw, from, to: from, steps: [], error: `Unrecognized schemaVersion "${from}"` };
+  if (compareVersions(from, CURRENT_SCHEMA_VERSION) > 0) return { doc: raw, from, to: from, steps: [], error: `schemaVersion ${from} is newer than this app supports (${CURRENT_SCHEMA_VERSION})` };
+  let doc: Obj = raw, version = from;
+  const steps: MigrationStep[] = [];
+  while (compareVersions(version, CURRENT_SCHEMA_VERSION) < 0) {
+    const m = MIGRATIONS.find(x => x.from === version);
+    if (!m) return { doc, from, to: version, steps, error: `No migration from schemaVersion ${version}` };
+    const changes: string[] = [];
+    doc = { ...m.migrate(doc, changes), schemaVersion: m.to };
+    steps.push({ from: m.from, to: m.to, changes });
+    version = m.to;
+  }
+  return { doc, from, to: version, steps };
+}
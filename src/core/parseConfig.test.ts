@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { defaultConfig } from "./defaults";
+import { parseConfig, readConfig } from "./parseConfig";
+
+const parse = (doc: object) => readConfig({ schemaVersion: "1.4", name: "Helper", instructions: "Be brief.", ...doc });
+
+describe("parseConfig", () => {
+  it("reads its own JSON and YAML exports back unchanged", () => {
+    expect(parseConfig(JSON.stringify(defaultConfig))).toEqual({ config: defaultConfig, issues: [], migrations: [] });
+    expect(parseConfig("schemaVersion: \"1.4\"\nname: Helper\ninstructions: |-\n  Line one\n  Line two\n").config).toMatchObject({ name: "Helper", instructions: "Line one\nLine two" });
+  });
+
+  it("reports syntax errors by format, without a config", () => {
+    expect(parseConfig("{ \"name\": ").issues[0].message).toMatch(/^Invalid JSON: /);
+    expect(parseConfig("name: [unclosed").issues[0].message).toMatch(/^Invalid YAML: /);
+    expect(parseConfig("[1, 2]")).toMatchObject({ config: null, issues: [{ path: "", severity: "error", message: "Expected a JSON object at the top level" }] });
+  });
+
+  it("warns about missing name and instructions but still returns a config", () => {
+    const res = readConfig({});
+    expect(res.config).toMatchObject({ name: "", instructions: "", schemaVersion: "1.4" });
+    expect(res.issues.map(i => i.message)).toEqual(expect.arrayContaining(["Missing name", "Missing instructions"]));
+  });
+
+  it("warns about unknown fields at their dotted path", () => {
+    const res = parse({ extra: 1, persona: { mood: "sunny" }, customActions: [{ name: "a", type: "openapi", verb: "GET" }] });
+    expect(res.issues).toEqual([
+      { path: "extra", severity: "warning", message: 'Unknown field "extra" ignored' },
+      { path: "persona.mood", severity: "warning", message: 'Unknown field "mood" ignored' },
+      { path: "customActions.0.verb", severity: "warning", message: 'Unknown field "verb" ignored' },
+    ]);
+  });
+
+  it("drops invalid values with an error and keeps the rest", () => {
+    const res = parse({
+      description: 42, persona: { writingTone: "grumpy", emojiUse: "none" }, builtInTools: ["web", "teleport"],
+      memory: { enabled: "yes", dataRetentionDays: "30" }, tags: ["ok", 7], conversationStarters: "hi",
+    });
+    expect(res.config).toMatchObject({ persona: { emojiUse: "none" }, builtInTools: ["web"], memory: { enabled: false }, tags: ["ok"] });
+    expect(res.config?.description).toBeUndefined();
+    expect(res.config?.persona?.writingTone).toBeUndefined();
+    expect(res.issues.filter(i => i.severity === "error").map(i => i.path)).toEqual([
+      "description", "persona.writingTone", "builtInTools.1", "memory.enabled", "memory.dataRetentionDays", "conversationStarters", "tags.1",
+    ]);
+  });
+
+  it("reads knowledge files and hints, structured auth and locales", () => {
+    const file = { name: "faq.pdf", mimeType: "application/pdf", size: 10, sha256: "ab".repeat(32), pages: 2 };
+    const res = parse({
+      knowledge: { enabled: true, documents: ["notes.md", file], chunking: { chunkSize: 500, chunkOverlap: 50 } },
+      customActions: [{ name: "a", type: "openapi", auth: { type: "api_key", apiKey: { in: "header", name: "X-Key", secretRef: "A_KEY" } } }],
+      locales: { fr: { name: "Aide" }, de: "Hilfe" },
+    });
+    expect(res.config?.knowledge).toEqual({ enabled: true, documents: ["notes.md", file], chunking: { chunkSize: 500, chunkOverlap: 50 } });
+    expect(res.config?.customActions?.[0].auth).toEqual({ type: "api_key", apiKey: { in: "header", name: "X-Key", secretRef: "A_KEY" } });
+    expect(res.config?.locales).toEqual({ fr: { name: "Aide" } });
+    expect(res.issues).toEqual([{ path: "locales.de", severity: "error", message: "Expected an object of overrides; locale skipped" }]);
+  });
+
+  it("skips unnamed actions and half-filled starters and files", () => {
+    const res = parse({ customActions: [{ type: "openapi" }], conversationStarters: [{ title: "Hi" }], knowledge: { enabled: true, documents: [{ name: "a.pdf" }] } });
+    expect(res.config).toMatchObject({ customActions: [], conversationStarters: [], knowledge: { documents: [] } });
+    expect(res.issues.map(i => i.path)).toEqual(["customActions.0.name", "knowledge.documents.0", "conversationStarters.0"]);
+  });
+
+  it("warns about a file digest that is not SHA-256 hex", () => {
+    const res = parse({ knowledge: { enabled: true, documents: [{ name: "a.txt", mimeType: "text/plain", size: 1, sha256: "ABC" }] } });
+    expect(res.issues).toEqual([{ path: "knowledge.documents.0.sha256", severity: "warning", message: "Expected a lowercase hex SHA-256 digest" }]);
+  });
+
+  it("ignores chunking without both numbers", () => {
+    const res = parse({ knowledge: { enabled: true, chunking: { chunkSize: 500 } } });
+    expect(res.config?.knowledge?.chunking).toBeUndefined();
+    expect(res.issues.map(i => i.path)).toEqual(["knowledge.chunking"]);
+  });
+});
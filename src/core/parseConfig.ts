@@ -0,0 +1,268 @@
+import {
+  ACTION_TYPES, API_KEY_LOCATIONS, AUTH_TYPES, BUILT_IN_TOOLS, EMOJI_USES, MEMORY_SCOPES, RESPONSE_LENGTHS, WRITING_TONES,
+  type ActionAuth, type BuiltInTool, type ConfigIssue, type ConversationStarter, type CustomAction, type CustomGPTConfig, type KnowledgeDocument, type KnowledgeFile,
+  type LocaleOverrides,
+} from "./types";
+import { CURRENT_SCHEMA_VERSION, migrateConfig, type MigrationStep } from "./migrations";
+import { parseYAML } from "./yaml";
+
+/** `migrations` lists the schema upgrades applied before parsing (empty when already current). */
+export type ParseResult = { config: CustomGPTConfig | null; issues: ConfigIssue[]; migrations: MigrationStep[] };
+
+const KNOWN_FIELDS = [
+  "schemaVersion", "name", "description", "instructions", "language", "locales", "persona", "builtInTools", "customActions",
+  "knowledge", "memory", "safety", "conversationStarters", "sampleQuestions", "tags", "createdAt", "updatedAt",
+];
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** Reads fields off one JSON object, recording an issue for every value it has to drop. */
+class Reader {
+  constructor(private issues: ConfigIssue[]) {}
+  error(path: string, message: string) { this.issues.push({ path, severity: "error", message }); }
+  warn(path: string, message: string) { this.issues.push({ path, severity: "warning", message }); }
+
+  unknown(o: Obj, known: string[], base: string) {
+    for (const k of Object.keys(o)) if (!known.includes(k)) this.warn(join(base, k), `Unknown field "${k}" ignored`);
+  }
+  str(o: Obj, key: string, base: string): string | undefined {
+    const v = o[key];
+    if (v === undefined) return undefined;
+    if (typeof v !== "string") { this.error(join(base, key), "Expected a string"); return undefined; }
+    return v;
+  }
+  bool(o: Obj, key: string, base: string): boolean | undefined {
+    const v = o[key];
+    if (v === undefined) return undefined;
+    if (typeof v !== "boolean") { this.error(join(base, key), "Expected true or false"); return undefined; }
+    return v;
+  }
+  num(o: Obj, key: string, base: string): number | undefined {
+    const v = o[key];
+    if (v === undefined) return undefined;
+    if (typeof v !== "number" || !Number.isFinite(v)) { this.error(join(base, key), "Expected a number"); return undefined; }
+    return v;
+  }
+  oneOf<T extends string>(o: Obj, key: string, base: string, allowed: readonly T[]): T | undefined {
+    const v = this.str(o, key, base);
+    if (v === undefined) return undefined;
+    if (!(allowed as readonly string[]).includes(v)) { this.error(join(base, key), `Expected one of: ${allowed.join(", ")}`); return undefined; }
+    return v as T;
+  }
+  obj(o: Obj, key: string, base: string): Obj | undefined {
+    const v = o[key];
+    if (v === undefined) return undefined;
+    if (!isObj(v)) { this.error(join(base, key), "Expected an object"); return undefined; }
+    return v;
+  }
+  /** Reads an array, keeping only the items `item` accepts. */
+  list<T>(o: Obj, key: string, base: string, item: (v: unknown, path: string) => T | undefined): T[] | undefined {
+    const v = o[key];
+    if (v === undefined) return undefined;
+    const path = join(base, key);
+    if (!Array.isArray(v)) { this.error(path, "Expected an array"); return undefined; }
+    const out: T[] = [];
+    v.forEach((x, i) => { const r = item(x, `${path}.${i}`); if (r !== undefined) out.push(r); });
+    return out;
+  }
+  strItem = (v: unknown, path: string): string | undefined => {
+    if (typeof v !== "string") { this.error(path, "Expected a string"); return undefined; }
+    return v;
+  };
+}
+
+function join(base: string, key: string) { return base ? `${base}.${key}` : key; }
+
+function readAction(r: Reader, v: unknown, path: string): CustomAction | undefined {
+  if (!isObj(v)) { r.error(path, "Expected an action object"); return undefined; }
+  r.unknown(v, ["name", "description", "type", "specUrlOrInline", "auth", "rateLimitPerMinute", "allowedDomains"], path);
+  const name = r.str(v, "name", path);
+  if (!name) { r.error(join(path, "name"), "Action name is required; action skipped"); return undefined; }
+  const action: CustomAction = { name, type: r.oneOf(v, "type", path, ACTION_TYPES) ?? "openapi" };
+  const description = r.str(v, "description", path);
+  if (description !== undefined) action.description = description;
+  const spec = r.str(v, "specUrlOrInline", path);
+  if (spec !== undefined) action.specUrlOrInline = spec;
+  const auth = r.obj(v, "auth", path);
+  if (auth) action.auth = readAuth(r, auth, join(path, "auth"));
+  const rate = r.num(v, "rateLimitPerMinute", path);
+  if (rate !== undefined) action.rateLimitPerMinute = rate;
+  const domains = r.list(v, "allowedDomains", path, r.strItem);
+  if (domains !== undefined) action.allowedDomains = domains;
+  return action;
+}
+
+function readAuth(r: Reader, v: Obj, path: string): ActionAuth {
+  r.unknown(v, ["type", "instructions", "apiKey", "oauth2"], path);
+  const auth: ActionAuth = { type: r.oneOf(v, "type", path, AUTH_TYPES) ?? "none" };
+  const instructions = r.str(v, "instructions", path);
+  if (instructions !== undefined) auth.instructions = instructions;
+  const apiKey = r.obj(v, "apiKey", path);
+  if (apiKey) {
+    const p = join(path, "apiKey");
+    r.unknown(apiKey, ["in", "name", "secretRef"], p);
+    const name = r.str(apiKey, "name", p);
+    if (!name) r.error(p, "API key settings need a header or query parameter name; dropped");
+    else {
+      auth.apiKey = { in: r.oneOf(apiKey, "in", p, API_KEY_LOCATIONS) ?? "header", name };
+      const ref = r.str(apiKey, "secretRef", p);
+      if (ref !== undefined) auth.apiKey.secretRef = ref;
+    }
+  }
+  const oauth2 = r.obj(v, "oauth2", path);
+  if (oauth2) {
+    const p = join(path, "oauth2");
+    r.unknown(oauth2, ["authorizationUrl", "tokenUrl", "scopes", "pkce", "clientIdRef", "clientSecretRef"], p);
+    auth.oauth2 = { authorizationUrl: r.str(oauth2, "authorizationUrl", p) ?? "", tokenUrl: r.str(oauth2, "tokenUrl", p) ?? "" };
+    const scopes = r.list(oauth2, "scopes", p, r.strItem), pkce = r.bool(oauth2, "pkce", p);
+    if (scopes !== undefined) auth.oauth2.scopes = scopes;
+    if (pkce !== undefined) auth.oauth2.pkce = pkce;
+    for (const key of ["clientIdRef", "clientSecretRef"] as const) {
+      const ref = r.str(oauth2, key, p);
+      if (ref !== undefined) auth.oauth2[key] = ref;
+    }
+  }
+  return auth;
+}
+
+function readStarter(r: Reader, v: unknown, path: string): ConversationStarter | undefined {
+  if (!isObj(v)) { r.error(path, "Expected a starter object"); return undefined; }
+  r.unknown(v, ["title", "prompt"], path);
+  const title = r.str(v, "title", path), prompt = r.str(v, "prompt", path);
+  if (!title || !prompt) { r.error(path, "Starter needs both title and prompt; starter skipped"); return undefined; }
+  return { title, prompt };
+}
+
+function readDocument(r: Reader, v: unknown, path: string): KnowledgeDocument | undefined {
+  if (typeof v === "string") return v;
+  if (!isObj(v)) { r.error(path, "Expected a document name or file object"); return undefined; }
+  r.unknown(v, ["name", "mimeType", "size", "sha256", "pages", "rows"], path);
+  const name = r.str(v, "name", path), mimeType = r.str(v, "mimeType", path), size = r.num(v, "size", path), sha256 = r.str(v, "sha256", path);
+  if (!name || mimeType === undefined || size === undefined || !sha256) { r.error(path, "File entries need name, mimeType, size and sha256; document skipped"); return undefined; }
+  if (!/^[\da-f]{64}$/.test(sha256)) r.warn(join(path, "sha256"), "Expected a lowercase hex SHA-256 digest");
+  const file: KnowledgeFile = { name, mimeType, size, sha256 };
+  const pages = r.num(v, "pages", path), rows = r.num(v, "rows", path);
+  if (pages !== undefined) file.pages = pages;
+  if (rows !== undefined) file.rows = rows;
+  return file;
+}
+
+function readLocale(r: Reader, v: Obj, path: string): LocaleOverrides {
+  r.unknown(v, ["name", "description", "instructions", "conversationStarters", "sampleQuestions"], path);
+  const out: LocaleOverrides = {};
+  for (const key of ["name", "description", "instructions"] as const) {
+    const s = r.str(v, key, path);
+    if (s !== undefined) out[key] = s;
+  }
+  const starters = r.list(v, "conversationStarters", path, (x, p) => readStarter(r, x, p));
+  if (starters !== undefined) out.conversationStarters = starters;
+  const questions = r.list(v, "sampleQuestions", path, r.strItem);
+  if (questions !== undefined) out.sampleQuestions = questions;
+  return out;
+}
+
+/**
+ * Upgrades an object to the current schema version, then parses it into a `CustomGPTConfig`.
+ * Unknown fields are warned about, invalid ones are dropped with an error.
+ */
+export function readConfig(input: unknown): ParseResult {
+  const issues: ConfigIssue[] = [];
+  const r = new Reader(issues);
+  if (!isObj(input)) { r.error("", "Expected a JSON object at the top level"); return { config: null, issues, migrations: [] }; }
+  const migration = migrateConfig(input);
+  if (migration.error) r.warn("schemaVersion", `${migration.error}; reading it as ${CURRENT_SCHEMA_VERSION}`);
+  const raw = migration.doc as Obj;
+  r.unknown(raw, KNOWN_FIELDS, "");
+
+  const name = r.str(raw, "name", "");
+  const instructions = r.str(raw, "instructions", "");
+  if (name === undefined) r.warn("name", "Missing name");
+  if (instructions === undefined) r.warn("instructions", "Missing instructions");
+  const config: CustomGPTConfig = {
+    schemaVersion: migration.error ? CURRENT_SCHEMA_VERSION : r.str(raw, "schemaVersion", "") ?? CURRENT_SCHEMA_VERSION,
+    name: name ?? "",
+    instructions: instructions ?? "",
+  };
+  const description = r.str(raw, "description", "");
+  if (description !== undefined) config.description = description;
+  const language = r.str(raw, "language", "");
+  if (language !== undefined) config.language = language;
+  const locales = r.obj(raw, "locales", "");
+  if (locales) {
+    config.locales = {};
+    for (const [tag, v] of Object.entries(locales)) {
+      if (isObj(v)) config.locales[tag] = readLocale(r, v, `locales.${tag}`);
+      else r.error(`locales.${tag}`, "Expected an object of overrides; locale skipped");
+    }
+  }
+
+  const persona = r.obj(raw, "persona", "");
+  if (persona) {
+    r.unknown(persona, ["writingTone", "emojiUse", "responseLength"], "persona");
+    config.persona = {
+      writingTone: r.oneOf(persona, "writingTone", "persona", WRITING_TONES),
+      emojiUse: r.oneOf(persona, "emojiUse", "persona", EMOJI_USES),
+      responseLength: r.oneOf(persona, "responseLength", "persona", RESPONSE_LENGTHS),
+    };
+  }
+
+  config.builtInTools = r.list(raw, "builtInTools", "", (v, path) => {
+    if (typeof v !== "string" || !(BUILT_IN_TOOLS as string[]).includes(v)) { r.error(path, `Expected one of: ${BUILT_IN_TOOLS.join(", ")}`); return undefined; }
+    return v as BuiltInTool;
+  });
+  config.customActions = r.list(raw, "customActions", "", (v, path) => readAction(r, v, path));
+
+  const knowledge = r.obj(raw, "knowledge", "");
+  if (knowledge) {
+    r.unknown(knowledge, ["enabled", "documents", "chunking"], "knowledge");
+    config.knowledge = { enabled: r.bool(knowledge, "enabled", "knowledge") ?? false, documents: r.list(knowledge, "documents", "knowledge", (v, path) => readDocument(r, v, path)) };
+    const chunking = r.obj(knowledge, "chunking", "knowledge");
+    if (chunking) {
+      r.unknown(chunking, ["chunkSize", "chunkOverlap"], "knowledge.chunking");
+      const chunkSize = r.num(chunking, "chunkSize", "knowledge.chunking"), chunkOverlap = r.num(chunking, "chunkOverlap", "knowledge.chunking");
+      if (chunkSize !== undefined && chunkOverlap !== undefined) config.knowledge.chunking = { chunkSize, chunkOverlap };
+      else r.error("knowledge.chunking", "Chunking needs chunkSize and chunkOverlap; ignored");
+    }
+  }
+
+  const memory = r.obj(raw, "memory", "");
+  if (memory) {
+    r.unknown(memory, ["enabled", "scope", "dataRetentionDays"], "memory");
+    config.memory = {
+      enabled: r.bool(memory, "enabled", "memory") ?? false,
+      scope: r.oneOf(memory, "scope", "memory", MEMORY_SCOPES),
+      dataRetentionDays: r.num(memory, "dataRetentionDays", "memory"),
+    };
+  }
+
+  const safety = r.obj(raw, "safety", "");
+  if (safety) {
+    r.unknown(safety, ["jailbreakDefense", "blockDisallowedContent", "piiRedaction", "customDisallowedPhrases"], "safety");
+    config.safety = {
+      jailbreakDefense: r.bool(safety, "jailbreakDefense", "safety"),
+      blockDisallowedContent: r.bool(safety, "blockDisallowedContent", "safety"),
+      piiRedaction: r.bool(safety, "piiRedaction", "safety"),
+      customDisallowedPhrases: r.list(safety, "customDisallowedPhrases", "safety", r.strItem),
+    };
+  }
+
+  config.conversationStarters = r.list(raw, "conversationStarters", "", (v, path) => readStarter(r, v, path));
+  config.sampleQuestions = r.list(raw, "sampleQuestions", "", r.strItem);
+  config.tags = r.list(raw, "tags", "", r.strItem);
+  const createdAt = r.str(raw, "createdAt", "");
+  if (createdAt !== undefined) config.createdAt = createdAt;
+  const updatedAt = r.str(raw, "updatedAt", "");
+  if (updatedAt !== undefined) config.updatedAt = updatedAt;
+
+  return { config, issues, migrations: migration.steps };
+}
+
+/** Parses JSON or YAML text (a pasted snippet or a file's contents) into a `CustomGPTConfig`. */
+export function parseConfig(text: string): ParseResult {
+  const json = /^\s*[{[]/.test(text);
+  let raw: unknown;
+  try { raw = json ? JSON.parse(text) : parseYAML(text); }
+  catch (e) { return { config: null, issues: [{ path: "", severity: "error", message: `Invalid ${json ? "JSON" : "YAML"}: ${(e as Error).message}` }], migrations: [] }; }
+  return readConfig(raw);
+}
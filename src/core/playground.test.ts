@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildConfig } from "./build";
+import { chatMessages, PlaygroundError, runStarters, streamChat, type PlaygroundSettings } from "./playground";
+import { compilePrompt } from "./prompt";
+
+const settings: PlaygroundSettings = { baseUrl: "http://localhost:8080/v1/", model: "m", temperature: 0 };
+
+/** An event-stream response delivered in the given pieces, so lines can be split across reads. */
+function sse(...pieces: string[]) {
+  const enc = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({ start(c) { for (const p of pieces) c.enqueue(enc.encode(p)); c.close(); } });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+function stubFetch(...responses: (Response | Error)[]) {
+  const fetch = vi.fn(async () => { const r = responses.shift()!; if (r instanceof Error) throw r; return r; });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+afterEach(() => { vi.unstubAllGlobals(); });
+
+describe("streamChat", () => {
+  it("posts to the chat endpoint and streams deltas until [DONE]", async () => {
+    const fetch = stubFetch(sse(chunk("Hel"), chunk("lo").slice(0, 12), chunk("lo").slice(12), ": keep-alive\n", "data: not json\n", chunk(""), "data: [DONE]\n\n", chunk("ignored")));
+    const deltas: string[] = [];
+    expect(await streamChat(settings, [{ role: "user", content: "Hi" }], d => deltas.push(d), { apiKey: "k" })).toBe("Hello");
+    expect(deltas).toEqual(["Hel", "lo"]);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer k" });
+    expect(JSON.parse(init.body as string)).toEqual({ model: "m", messages: [{ role: "user", content: "Hi" }], stream: true, temperature: 0 });
+  });
+
+  it("accepts a plain JSON reply from servers that ignore streaming", async () => {
+    stubFetch(Response.json({ choices: [{ message: { content: "Whole reply" } }] }));
+    const onDelta = vi.fn();
+    expect(await streamChat(settings, [], onDelta)).toBe("Whole reply");
+    expect(onDelta).toHaveBeenCalledWith("Whole reply");
+  });
+
+  it.each([
+    [new Response(JSON.stringify({ error: { message: "bad model" } }), { status: 404 }), "HTTP 404: bad model", 404],
+    [new Response("", { status: 500 }), "HTTP 500", 500],
+    [new Response("<html>", { status: 200 }), "Response was neither an event stream nor JSON", undefined],
+    [new TypeError("fetch failed"), "Could not reach http://localhost:8080/v1/: fetch failed", undefined],
+  ])("reports failures as PlaygroundError (%#)", async (response, message, status) => {
+    stubFetch(response);
+    const err = await streamChat(settings, [], () => {}).catch(e => e);
+    expect(err).toBeInstanceOf(PlaygroundError);
+    expect(err).toMatchObject({ message, status });
+  });
+
+  it("rethrows aborts untouched", async () => {
+    const abort = new DOMException("aborted", "AbortError");
+    stubFetch(abort);
+    await expect(streamChat(settings, [], () => {})).rejects.toBe(abort);
+  });
+});
+
+describe("runStarters", () => {
+  const cfg = buildConfig({ instructions: "Be brief.", conversationStarters: [{ title: "A", prompt: "First?" }, { title: "B", prompt: "Second?" }] });
+
+  it("sends the compiled prompt with each starter", () => {
+    expect(chatMessages(cfg, "First?")).toEqual([{ role: "system", content: compilePrompt(cfg).text }, { role: "user", content: "First?" }]);
+  });
+
+  it("runs every starter, recording failures on their transcript", async () => {
+    stubFetch(sse(chunk("One"), "data: [DONE]\n"), new Response("down", { status: 503 }));
+    let t = 0;
+    const progress: number[] = [];
+    const run = await runStarters(cfg, settings, { id: "r1", now: () => new Date(Date.UTC(2024, 0, 1) + (t += 10)), onProgress: done => progress.push(done) });
+    expect(run).toMatchObject({ id: "r1", model: "m", instructions: "Be brief." });
+    expect(run.transcripts).toEqual([
+      { title: "A", prompt: "First?", reply: "One", durationMs: 10 },
+      { title: "B", prompt: "Second?", reply: "", error: "HTTP 503: down", durationMs: 10 },
+    ]);
+    expect(progress).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,99 @@
+import type { CustomGPTConfig } from "./types";
+import { compilePrompt } from "./prompt";
+
+/** Where playground requests go. `baseUrl` is an OpenAI-compatible API root, e.g. `http://localhost:8080/v1`. */
+export type PlaygroundSettings = { baseUrl: string; model: string; temperature?: number };
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+export type Transcript = { title: string; prompt: string; reply: string; error?: string; durationMs: number };
+/** One batch run over every conversation starter, stored next to the config so later runs can be compared. */
+export type TranscriptRun = { id: string; ranAt: string; model: string; baseUrl: string; instructions: string; transcripts: Transcript[] };
+
+export const DEFAULT_PLAYGROUND: PlaygroundSettings = { baseUrl: "http://localhost:11434/v1", model: "llama3.1", temperature: 0.2 };
+
+export class PlaygroundError extends Error {
+  constructor(message: string, public status?: number) { super(message); this.name = "PlaygroundError"; }
+}
+
+export function chatMessages(cfg: CustomGPTConfig, prompt: string): ChatMessage[] {
+  return [{ role: "system", content: compilePrompt(cfg).text }, { role: "user", content: prompt }];
+}
+
+function endpoint(baseUrl: string) { return `${baseUrl.trim().replace(/\/+$/, "")}/chat/completions`; }
+
+/** Pulls a readable message out of an error response body (OpenAI-style `{ error: { message } }` or plain text). */
+function errorMessage(status: number, body: string) {
+  try { const j = JSON.parse(body); const m = j?.error?.message ?? j?.message ?? j?.error; if (typeof m === "string") return `HTTP ${status}: ${m}`; } catch {}
+  return `HTTP ${status}${body.trim() ? `: ${body.trim().slice(0, 200)}` : ""}`;
+}
+
+/**
+ * Streams a chat completion, calling `onDelta` with each piece of reply text. Resolves with the full reply.
+ * Servers that ignore `stream: true` and answer with a single JSON body are handled too.
+ */
+export async function streamChat(settings: PlaygroundSettings, messages: ChatMessage[], onDelta: (text: string) => void, opts: { apiKey?: string; signal?: AbortSignal } = {}): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(endpoint(settings.baseUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(opts.apiKey && { Authorization: `Bearer ${opts.apiKey}` }) },
+      body: JSON.stringify({ model: settings.model, messages, stream: true, ...(settings.temperature !== undefined && { temperature: settings.temperature }) }),
+      signal: opts.signal,
+    });
+  } catch (e) {
+    if ((e as Error).name === "AbortError") throw e;
+    throw new PlaygroundError(`Could not reach ${settings.baseUrl}: ${(e as Error).message}`);
+  }
+  if (!res.ok) throw new PlaygroundError(errorMessage(res.status, await res.text()), res.status);
+
+  if (!(res.headers.get("content-type") || "").includes("text/event-stream") || !res.body) {
+    let reply: string;
+    try { reply = JSON.parse(await res.text())?.choices?.[0]?.message?.content ?? ""; }
+    catch { throw new PlaygroundError("Response was neither an event stream nor JSON"); }
+    onDelta(reply);
+    return reply;
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "", reply = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return reply;
+      let delta: unknown;
+      try { delta = JSON.parse(data)?.choices?.[0]?.delta?.content; } catch { continue; }
+      if (typeof delta === "string" && delta) { reply += delta; onDelta(delta); }
+    }
+  }
+  return reply;
+}
+
+/** Sends every conversation starter in turn. Failures are recorded on their transcript rather than ending the run. */
+export async function runStarters(cfg: CustomGPTConfig, settings: PlaygroundSettings,
+  opts: { apiKey?: string; signal?: AbortSignal; onProgress?: (done: number, total: number, current: Transcript) => void; id?: string; now?: () => Date } = {}): Promise<TranscriptRun> {
+  const now = opts.now ?? (() => new Date());
+  const starters = cfg.conversationStarters || [];
+  const run: TranscriptRun = {
+    id: opts.id ?? now().getTime().toString(36), ranAt: now().toISOString(), model: settings.model, baseUrl: settings.baseUrl,
+    instructions: cfg.instructions, transcripts: [],
+  };
+  for (const s of starters) {
+    const started = now().getTime();
+    const t: Transcript = { title: s.title, prompt: s.prompt, reply: "", durationMs: 0 };
+    try { t.reply = await streamChat(settings, chatMessages(cfg, s.prompt), () => {}, opts); }
+    catch (e) {
+      if ((e as Error).name === "AbortError") throw e;
+      t.error = (e as Error).message;
+    }
+    t.durationMs = now().getTime() - started;
+    run.transcripts.push(t);
+    opts.onProgress?.(run.transcripts.length, starters.length, t);
+  }
+  return run;
+}
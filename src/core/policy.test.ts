@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { defaultConfig } from "./defaults";
+import { lintPolicy, policyIssues, POLICY_RULES, riskLevel, riskScore, type PolicyFinding } from "./policy";
+import type { CustomGPTConfig } from "./types";
+
+const rulesHit = (patch: Partial<CustomGPTConfig>, settings = {}) => lintPolicy(buildConfig(patch), settings).findings.map(f => f.rule);
+
+describe("policy rules", () => {
+  it("find nothing in the default config", () => {
+    expect(lintPolicy(defaultConfig, {}, "2024-01-01T00:00:00.000Z")).toMatchObject({ score: 0, level: "none", findings: [], generatedAt: "2024-01-01T00:00:00.000Z" });
+  });
+
+  it("flag long-lived user memory without PII redaction", () => {
+    const memory = (dataRetentionDays?: number) => ({ memory: { enabled: true, scope: "user" as const, dataRetentionDays } });
+    expect(rulesHit(memory(180))).toEqual(["memory-pii-retention"]);
+    expect(rulesHit(memory(undefined))).toEqual(["memory-pii-retention"]);
+    expect(rulesHit(memory(30))).toEqual([]);
+    expect(rulesHit(memory(180), { longRetentionDays: 365 })).toEqual([]);
+    expect(rulesHit({ ...memory(180), safety: { ...defaultConfig.safety, piiRedaction: true } })).toEqual([]);
+  });
+
+  it("flag open, plain-HTTP and wildcard actions", () => {
+    expect(rulesHit({ customActions: [{ name: "a", type: "openapi", specUrlOrInline: "http://x.io/spec" }] })).toEqual(["action-open-auth", "action-plain-http"]);
+    expect(rulesHit({ customActions: [{ name: "a", type: "openapi", allowedDomains: ["*.x.io"] }] })).toEqual(["action-wildcard-domain"]);
+    expect(rulesHit({ customActions: [{ name: "a", type: "openapi", auth: { type: "api_key" } }] })).toEqual([]);
+  });
+
+  it("flag disallowed phrases used in instructions or starters, case-insensitively", () => {
+    const report = lintPolicy(buildConfig({
+      instructions: "We GUARANTEE results.", conversationStarters: [{ title: "Refund", prompt: "Is a refund guaranteed?" }],
+      safety: { ...defaultConfig.safety, customDisallowedPhrases: ["guarantee", " "] },
+    }));
+    expect(report.findings).toEqual([{ rule: "phrase-in-prompt", severity: "medium", path: "safety.customDisallowedPhrases.0", message: '"guarantee" is disallowed but appears in instructions, conversation starter 1' }]);
+  });
+
+  it("flag code plus web without jailbreak defense, and content filtering off", () => {
+    expect(rulesHit({ builtInTools: ["code", "web"], safety: { jailbreakDefense: false, blockDisallowedContent: false } })).toEqual(["code-web-jailbreak", "content-filter-off"]);
+  });
+});
+
+describe("policy settings", () => {
+  const open = { customActions: [{ name: "a", type: "openapi" as const }] };
+
+  it("overrides a rule's severity or turns it off", () => {
+    expect(lintPolicy(buildConfig(open), { severities: { "action-open-auth": "low" } }).findings[0].severity).toBe("low");
+    const off = lintPolicy(buildConfig(open), { severities: { "action-open-auth": "off" } });
+    expect(off.findings).toEqual([]);
+    expect(off.rules.find(r => r.id === "action-open-auth")?.severity).toBe("off");
+    expect(off.rules).toHaveLength(POLICY_RULES.length);
+  });
+});
+
+describe("scoring", () => {
+  const finding = (severity: PolicyFinding["severity"]): PolicyFinding => ({ rule: "r", severity, path: "", message: "" });
+
+  it("weighs findings by severity, capped at 100", () => {
+    expect(riskScore([])).toBe(0);
+    expect(riskScore([finding("low"), finding("medium"), finding("high")])).toBe(55);
+    expect(riskScore([finding("high"), finding("high"), finding("high")])).toBe(100);
+  });
+
+  it("maps scores onto levels", () => {
+    expect([0, 5, 24, 25, 59, 60, 100].map(riskLevel)).toEqual(["none", "low", "low", "medium", "medium", "high", "high"]);
+  });
+
+  it("turns findings into warnings at their paths", () => {
+    const report = lintPolicy(buildConfig({ customActions: [{ name: "a", type: "openapi" }] }));
+    expect(report).toMatchObject({ score: 35, level: "medium" });
+    expect(policyIssues(report)).toEqual([{ path: "customActions.0.auth", severity: "warning", message: 'Risk (high): Action "a" has no auth and may call any domain' }]);
+  });
+});
@@ -0,0 +1,110 @@
+import type { ConfigIssue, CustomGPTConfig } from "./types";
+
+export type RiskSeverity = "low" | "medium" | "high";
+/** Per-rule severity overrides (`off` disables a rule) plus the thresholds rules read. */
+export type PolicySettings = { severities?: Record<string, RiskSeverity | "off">; longRetentionDays?: number };
+export type PolicyFinding = { rule: string; severity: RiskSeverity; path: string; message: string };
+export type PolicyRule = {
+  id: string;
+  title: string;
+  defaultSeverity: RiskSeverity;
+  check: (cfg: CustomGPTConfig, settings: Required<Pick<PolicySettings, "longRetentionDays">>) => { path: string; message: string }[];
+};
+/** Machine-readable lint result, suitable for attaching to a security review. */
+export type PolicyReport = {
+  config: { name: string; schemaVersion: string; updatedAt?: string };
+  generatedAt: string;
+  score: number;
+  level: "none" | RiskSeverity;
+  findings: PolicyFinding[];
+  rules: { id: string; title: string; severity: RiskSeverity | "off" }[];
+};
+
+export const RISK_SEVERITIES: RiskSeverity[] = ["low", "medium", "high"];
+export const DEFAULT_LONG_RETENTION_DAYS = 30;
+const WEIGHTS: Record<RiskSeverity, number> = { low: 5, medium: 15, high: 35 };
+
+export const POLICY_RULES: PolicyRule[] = [
+  {
+    id: "memory-pii-retention", title: "Long-lived user memory without PII redaction", defaultSeverity: "high",
+    check: (cfg, { longRetentionDays }) => {
+      const m = cfg.memory;
+      if (!m?.enabled || m.scope !== "user" || cfg.safety?.piiRedaction) return [];
+      const days = m.dataRetentionDays;
+      if (days !== undefined && days <= longRetentionDays) return [];
+      return [{ path: "memory.dataRetentionDays", message: `User-scoped memory kept ${days === undefined ? "indefinitely" : `for ${days} days`} while PII redaction is off` }];
+    },
+  },
+  {
+    id: "action-open-auth", title: "Unauthenticated action with no domain allow-list", defaultSeverity: "high",
+    check: cfg => (cfg.customActions || []).flatMap((a, i) => (a.auth?.type ?? "none") === "none" && !a.allowedDomains?.length
+      ? [{ path: `customActions.${i}.auth`, message: `Action "${a.name}" has no auth and may call any domain` }] : []),
+  },
+  {
+    id: "action-plain-http", title: "Action spec served over plain HTTP", defaultSeverity: "medium",
+    check: cfg => (cfg.customActions || []).flatMap((a, i) => /^http:\/\//i.test((a.specUrlOrInline || "").trim())
+      ? [{ path: `customActions.${i}.specUrlOrInline`, message: `Action "${a.name}" loads its spec over unencrypted HTTP` }] : []),
+  },
+  {
+    id: "action-wildcard-domain", title: "Wildcard domain in an allow-list", defaultSeverity: "low",
+    check: cfg => (cfg.customActions || []).flatMap((a, i) => (a.allowedDomains || []).flatMap((d, j) => d.startsWith("*.")
+      ? [{ path: `customActions.${i}.allowedDomains.${j}`, message: `"${d}" allows every subdomain` }] : [])),
+  },
+  {
+    id: "phrase-in-prompt", title: "Disallowed phrase used in instructions or starters", defaultSeverity: "medium",
+    check: cfg => {
+      const sources = [
+        { where: "instructions", text: cfg.instructions },
+        ...(cfg.conversationStarters || []).map((s, i) => ({ where: `conversation starter ${i + 1}`, text: `${s.title}\n${s.prompt}` })),
+      ];
+      return (cfg.safety?.customDisallowedPhrases || []).flatMap((p, i) => {
+        const needle = p.trim().toLowerCase();
+        const hits = needle ? sources.filter(s => s.text.toLowerCase().includes(needle)).map(s => s.where) : [];
+        return hits.length ? [{ path: `safety.customDisallowedPhrases.${i}`, message: `"${p}" is disallowed but appears in ${hits.join(", ")}` }] : [];
+      });
+    },
+  },
+  {
+    id: "code-web-jailbreak", title: "Code and web tools without jailbreak defense", defaultSeverity: "high",
+    check: cfg => {
+      const tools = cfg.builtInTools || [];
+      return tools.includes("code") && tools.includes("web") && !cfg.safety?.jailbreakDefense
+        ? [{ path: "safety.jailbreakDefense", message: "Code execution and web browsing are both enabled while jailbreak defense is off" }] : [];
+    },
+  },
+  {
+    id: "content-filter-off", title: "Disallowed content is not blocked", defaultSeverity: "medium",
+    check: cfg => cfg.safety?.blockDisallowedContent ? [] : [{ path: "safety.blockDisallowedContent", message: "Disallowed content blocking is off" }],
+  },
+];
+
+export function ruleSeverity(rule: PolicyRule, settings: PolicySettings = {}) { return settings.severities?.[rule.id] ?? rule.defaultSeverity; }
+
+/** 0–100: each finding adds its severity's weight, capped at 100. */
+export function riskScore(findings: PolicyFinding[]) { return Math.min(100, findings.reduce((n, f) => n + WEIGHTS[f.severity], 0)); }
+
+export function riskLevel(score: number): PolicyReport["level"] {
+  return score === 0 ? "none" : score < 25 ? "low" : score < 60 ? "medium" : "high";
+}
+
+/** Runs every enabled rule over a config and scores the result. */
+export function lintPolicy(cfg: CustomGPTConfig, settings: PolicySettings = {}, now = new Date().toISOString()): PolicyReport {
+  const opts = { longRetentionDays: settings.longRetentionDays ?? DEFAULT_LONG_RETENTION_DAYS };
+  const findings: PolicyFinding[] = [];
+  for (const rule of POLICY_RULES) {
+    const severity = ruleSeverity(rule, settings);
+    if (severity === "off") continue;
+    for (const hit of rule.check(cfg, opts)) findings.push({ rule: rule.id, severity, ...hit });
+  }
+  const score = riskScore(findings);
+  return {
+    config: { name: cfg.name, schemaVersion: cfg.schemaVersion, ...(cfg.updatedAt && { updatedAt: cfg.updatedAt }) },
+    generatedAt: now, score, level: riskLevel(score), findings,
+    rules: POLICY_RULES.map(r => ({ id: r.id, title: r.title, severity: ruleSeverity(r, settings) })),
+  };
+}
+
+/** Findings as advisory field issues, so the editor can flag the fields they point at. */
+export function policyIssues(report: PolicyReport): ConfigIssue[] {
+  return report.findings.map(f => ({ path: f.path, severity: "warning", message: `Risk (${f.severity}): ${f.message}` }));
+}
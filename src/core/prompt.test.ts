@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { compilePrompt, estimateTokens } from "./prompt";
+
+describe("estimateTokens", () => {
+  it("counts Latin words by length, digits by threes and punctuation one each", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("hello")).toBe(1);
+    expect(estimateTokens("internationalization")).toBe(4);
+    expect(estimateTokens("12345")).toBe(2);
+    expect(estimateTokens("Hi, there!")).toBe(4);
+  });
+
+  it("counts other scripts one token per two letters", () => {
+    expect(estimateTokens("مختصر")).toBe(3);
+    expect(estimateTokens("こんにちは")).toBe(3);
+  });
+});
+
+describe("compilePrompt", () => {
+  const cfg = buildConfig({
+    instructions: "  You help with billing.  ",
+    persona: { writingTone: "formal", emojiUse: "none", responseLength: "short" }, language: "fr",
+    safety: { jailbreakDefense: true, customDisallowedPhrases: ["guarantee"] },
+    builtInTools: ["code"], customActions: [{ name: "Invoices", type: "openapi", description: "Look up invoices" }],
+    knowledge: { enabled: true, documents: ["pricing.md", { name: "terms.pdf", mimeType: "application/pdf", size: 1, sha256: "0".repeat(64) }] },
+    memory: { enabled: true, scope: "user", dataRetentionDays: 30 },
+  });
+  const prompt = compilePrompt(cfg);
+
+  it("builds sections in a fixed order, starting with the trimmed instructions", () => {
+    expect(prompt.sections.map(s => s.id)).toEqual(["instructions", "persona", "safety", "tools", "knowledge", "memory"]);
+    expect(prompt.sections[0].text).toBe("You help with billing.");
+    expect(prompt.text).toBe(prompt.sections.map(s => s.text).join("\n\n"));
+  });
+
+  it("turns settings into directives", () => {
+    expect(prompt.text).toContain("- Write in a formal tone.");
+    expect(prompt.text).toContain("- Do not use emoji.");
+    expect(prompt.text).toContain('Reply in the language with IETF tag "fr"');
+    expect(prompt.text).toContain('- Never say: "guarantee".');
+    expect(prompt.text).toContain("- Invoices (openapi action): Look up invoices");
+    expect(prompt.text).toContain("reference documents: pricing.md, terms.pdf.");
+    expect(prompt.text).toContain("expiring after 30 days");
+  });
+
+  it("counts tokens per section and for the whole prompt", () => {
+    for (const s of prompt.sections) expect(s.tokens).toBe(estimateTokens(s.text));
+    expect(prompt.tokens).toBe(estimateTokens(prompt.text));
+    expect(prompt.tokens).toBeGreaterThanOrEqual(prompt.sections.reduce((n, s) => n + s.tokens, 0));
+  });
+
+  it("leaves out empty sections, but always says how memory behaves", () => {
+    const bare = compilePrompt(buildConfig({ instructions: "Hi.", persona: {}, language: undefined, safety: {}, builtInTools: [], customActions: [], knowledge: { enabled: false } }));
+    expect(bare.sections.map(s => s.id)).toEqual(["instructions", "memory"]);
+    expect(bare.text).toContain("Do not claim to remember earlier conversations.");
+  });
+
+  it("grows with the config, so budgets can be checked against it", () => {
+    const longer = compilePrompt({ ...cfg, instructions: cfg.instructions + " Always double-check totals.".repeat(20) });
+    expect(longer.tokens).toBeGreaterThan(prompt.tokens);
+  });
+});
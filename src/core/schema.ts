@@ -0,0 +1,147 @@
+import {
+  ACTION_TYPES, API_KEY_LOCATIONS, AUTH_TYPES, BUILT_IN_TOOLS, EMOJI_USES, MEMORY_SCOPES, RESPONSE_LENGTHS, WRITING_TONES,
+  type ActionAuth, type ApiKeyAuth, type ChunkingSettings, type ConversationStarter, type CustomAction, type CustomGPTConfig, type KnowledgeBase, type KnowledgeFile,
+  type LocaleOverrides, type MemoryPolicy, type OAuth2Auth, type PersonaStyle, type SafetyPolicy,
+} from "./types";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+
+/**
+ * JSON Schema (draft 2020-12) for `CustomGPTConfig`. Each `properties` map is checked against the
+ * matching TypeScript type with `satisfies`, so adding or removing a field without updating the
+ * schema fails the type-check.
+ */
+type Props<T> = { [K in keyof Required<T>]: object };
+
+const stringList = { type: "array", items: { type: "string" } };
+const enumOf = (values: readonly string[]) => ({ type: "string", enum: [...values] });
+
+const secretRef = { type: "string", pattern: "^[A-Z][A-Z0-9_]{0,63}$", description: "Name of a secret supplied at deploy time (e.g. SUPPORT_API_KEY), never the value itself" };
+
+const apiKeyProps = {
+  in: enumOf(API_KEY_LOCATIONS),
+  name: { type: "string", minLength: 1, description: "Header or query parameter name, e.g. X-API-Key" },
+  secretRef,
+} satisfies Props<ApiKeyAuth>;
+
+const oauth2Props = {
+  authorizationUrl: { type: "string", format: "uri" },
+  tokenUrl: { type: "string", format: "uri" },
+  scopes: stringList,
+  pkce: { type: "boolean" },
+  clientIdRef: secretRef,
+  clientSecretRef: secretRef,
+} satisfies Props<OAuth2Auth>;
+
+const authProps = {
+  type: enumOf(AUTH_TYPES),
+  instructions: { type: "string" },
+  apiKey: { type: "object", properties: apiKeyProps, required: ["in", "name"], additionalProperties: false },
+  oauth2: { type: "object", properties: oauth2Props, required: ["authorizationUrl", "tokenUrl"], additionalProperties: false },
+} satisfies Props<ActionAuth>;
+
+const actionProps = {
+  name: { type: "string", minLength: 1 },
+  description: { type: "string" },
+  type: enumOf(ACTION_TYPES),
+  specUrlOrInline: { type: "string", description: "An http(s) URL, or an inline OpenAPI (JSON/YAML) or GraphQL SDL document" },
+  auth: { type: "object", properties: authProps, required: ["type"], additionalProperties: false },
+  rateLimitPerMinute: { type: "integer", minimum: 1 },
+  allowedDomains: stringList,
+} satisfies Props<CustomAction>;
+
+const personaProps = {
+  writingTone: enumOf(WRITING_TONES),
+  emojiUse: enumOf(EMOJI_USES),
+  responseLength: enumOf(RESPONSE_LENGTHS),
+} satisfies Props<PersonaStyle>;
+
+const memoryProps = {
+  enabled: { type: "boolean" },
+  scope: enumOf(MEMORY_SCOPES),
+  dataRetentionDays: { type: "integer", minimum: 0 },
+} satisfies Props<MemoryPolicy>;
+
+const safetyProps = {
+  jailbreakDefense: { type: "boolean" },
+  blockDisallowedContent: { type: "boolean" },
+  piiRedaction: { type: "boolean" },
+  customDisallowedPhrases: stringList,
+} satisfies Props<SafetyPolicy>;
+
+const knowledgeFileProps = {
+  name: { type: "string", minLength: 1 },
+  mimeType: { type: "string" },
+  size: { type: "integer", minimum: 0, description: "Bytes" },
+  sha256: { type: "string", pattern: "^[0-9a-f]{64}$" },
+  pages: { type: "integer", minimum: 0, description: "PDF page count" },
+  rows: { type: "integer", minimum: 0, description: "CSV data row count (excluding the header)" },
+} satisfies Props<KnowledgeFile>;
+
+const chunkingProps = {
+  chunkSize: { type: "integer", minimum: 1, description: "Characters per chunk" },
+  chunkOverlap: { type: "integer", minimum: 0, description: "Characters shared by consecutive chunks" },
+} satisfies Props<ChunkingSettings>;
+
+const knowledgeProps = {
+  enabled: { type: "boolean" },
+  documents: {
+    type: "array",
+    items: { oneOf: [{ type: "string", description: "Name-only hint" }, { $ref: "#/$defs/knowledgeFile" }] },
+  },
+  chunking: { type: "object", properties: chunkingProps, required: ["chunkSize", "chunkOverlap"], additionalProperties: false },
+} satisfies Props<KnowledgeBase>;
+
+const starterProps = {
+  title: { type: "string", minLength: 1 },
+  prompt: { type: "string", minLength: 1 },
+} satisfies Props<ConversationStarter>;
+
+const starterList = { type: "array", items: { type: "object", properties: starterProps, required: ["title", "prompt"], additionalProperties: false } };
+
+const localeProps = {
+  name: { type: "string", minLength: 1 },
+  description: { type: "string" },
+  instructions: { type: "string", minLength: 1 },
+  conversationStarters: starterList,
+  sampleQuestions: stringList,
+} satisfies Props<LocaleOverrides>;
+
+const configProps = {
+  schemaVersion: { type: "string", const: CURRENT_SCHEMA_VERSION },
+  name: { type: "string", minLength: 1 },
+  description: { type: "string" },
+  instructions: { type: "string", minLength: 1 },
+  language: { type: "string", description: "IETF BCP 47 language tag, e.g. en, ur, en-GB" },
+  locales: {
+    type: "object",
+    description: "Overrides keyed by IETF language tag; missing fields fall back to the default locale (language)",
+    additionalProperties: { $ref: "#/$defs/localeOverrides" },
+  },
+  persona: { type: "object", properties: personaProps, additionalProperties: false },
+  builtInTools: { type: "array", items: enumOf(BUILT_IN_TOOLS), uniqueItems: true },
+  customActions: { type: "array", items: { $ref: "#/$defs/customAction" } },
+  knowledge: { type: "object", properties: knowledgeProps, required: ["enabled"], additionalProperties: false },
+  memory: { type: "object", properties: memoryProps, required: ["enabled"], additionalProperties: false },
+  safety: { type: "object", properties: safetyProps, additionalProperties: false },
+  conversationStarters: starterList,
+  sampleQuestions: stringList,
+  tags: stringList,
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+} satisfies Props<CustomGPTConfig>;
+
+export const configJsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:custom-gpt-config:${CURRENT_SCHEMA_VERSION}`,
+  title: "CustomGPTConfig",
+  description: `Vendor-neutral Custom GPT definition, schema version ${CURRENT_SCHEMA_VERSION}.`,
+  type: "object",
+  properties: configProps,
+  required: ["schemaVersion", "name", "instructions"],
+  additionalProperties: false,
+  $defs: {
+    customAction: { type: "object", properties: actionProps, required: ["name", "type"], additionalProperties: false },
+    localeOverrides: { type: "object", properties: localeProps, additionalProperties: false },
+    knowledgeFile: { type: "object", properties: knowledgeFileProps, required: ["name", "mimeType", "size", "sha256"], additionalProperties: false },
+  },
+};
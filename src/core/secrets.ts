@@ -0,0 +1,92 @@
+import type { ConfigIssue, CustomGPTConfig } from "./types";
+
+/** Secret references are environment-variable style names, e.g. `SUPPORT_API_KEY`. */
+const SECRET_REF = /^[A-Z][A-Z0-9_]{0,63}$/;
+export function isSecretRef(v: string) { return SECRET_REF.test(v); }
+
+/** What a redacted value is replaced with. */
+export const REDACTED = "[REDACTED]";
+
+/** A secret-looking value at a dotted config path. `preview` keeps only its first characters, so findings are safe to print. */
+export type SecretFinding = { path: string; kind: string; preview: string; start: number; end: number };
+
+// `group` marks detectors whose secret is the last capture group rather than the whole match
+type Detector = { kind: string; pattern: RegExp; group?: true };
+const DETECTORS: Detector[] = [
+  { kind: "Private key", pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z]+ )*PRIVATE KEY-----|$)/g },
+  { kind: "OpenAI or Anthropic API key", pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { kind: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { kind: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: "Stripe key", pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { kind: "Bearer token", pattern: /\bBearer[ \t]+([A-Za-z0-9._~+/-]{16,}=*)/g, group: true },
+  { kind: "Password in URL", pattern: /\b[a-z][a-z\d+.-]*:\/\/[^\s/:@]+:([^\s/@]+)(?=@)/gi, group: true },
+  {
+    kind: "Key, token or password",
+    pattern: /\b(?:api[_-]?key|access[_-]?key|secret(?:[_-]?key)?|client[_-]?secret|(?:access|auth|refresh)?[_-]?token|password|passwd|pwd)["']?[ \t]*[:=][ \t]*["']?([^\s"'`,;{}[\]()<>]{6,})/gi,
+    group: true,
+  },
+];
+
+// Values after `password:` and friends that are documentation, not secrets
+const NOT_A_SECRET = /^(?:\$\{?\w+\}?|\{\{.*\}\}|<.*>|\*+|x{3,}|\.{3,}|…|\[redacted\]|string|integer|number|boolean|object|array|required|optional|header|query|bearer|null|undefined|true|false|example|placeholder)$/i;
+
+function isPlaceholder(v: string) {
+  return NOT_A_SECRET.test(v) || (isSecretRef(v) && (v.includes("_") || /^[A-Z]+$/.test(v)));
+}
+
+/** Secret-looking spans in one string, in order and without overlaps. */
+function findSecrets(text: string): { kind: string; start: number; end: number }[] {
+  const spans: { kind: string; start: number; end: number }[] = [];
+  for (const d of DETECTORS) {
+    for (const m of text.matchAll(d.pattern)) {
+      const value = d.group ? m[m.length - 1] : m[0];
+      if (d.group && isPlaceholder(value)) continue;
+      const end = m.index! + m[0].length;
+      spans.push({ kind: d.kind, start: end - value.length, end });
+    }
+  }
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  return spans.filter((s, i) => !spans.slice(0, i).some(p => p.end > s.start));
+}
+
+function preview(value: string) { return `${value.slice(0, 4)}… (${value.length} characters)`; }
+
+/** Calls `visit` with every string value in a JSON-compatible value and its dotted path. */
+function eachString(v: unknown, path: string, visit: (s: string, path: string) => void) {
+  if (typeof v === "string") visit(v, path);
+  else if (Array.isArray(v)) v.forEach((x, i) => eachString(x, path ? `${path}.${i}` : String(i), visit));
+  else if (typeof v === "object" && v !== null) for (const [k, x] of Object.entries(v)) eachString(x, path ? `${path}.${k}` : k, visit);
+}
+
+function mapStrings(v: unknown, fn: (s: string) => string): unknown {
+  if (typeof v === "string") return fn(v);
+  if (Array.isArray(v)) return v.map(x => mapStrings(x, fn));
+  if (typeof v === "object" && v !== null) return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, mapStrings(x, fn)]));
+  return v;
+}
+
+/** Key-, token- and password-looking values anywhere in a config: instructions, specs, starters, auth notes. */
+export function scanSecrets(cfg: CustomGPTConfig): SecretFinding[] {
+  const out: SecretFinding[] = [];
+  eachString(cfg, "", (s, path) => {
+    for (const f of findSecrets(s)) out.push({ path, kind: f.kind, preview: preview(s.slice(f.start, f.end)), start: f.start, end: f.end });
+  });
+  return out;
+}
+
+/** The config with every secret-looking value replaced by `REDACTED`; everything else is untouched. */
+export function redactSecrets(cfg: CustomGPTConfig): CustomGPTConfig {
+  return mapStrings(cfg, s => {
+    let out = s;
+    for (const f of findSecrets(s).reverse()) out = out.slice(0, f.start) + REDACTED + out.slice(f.end);
+    return out;
+  }) as CustomGPTConfig;
+}
+
+/** Findings as advisory issues, so the fields holding them are highlighted like any other problem. */
+export function secretIssues(findings: SecretFinding[]): ConfigIssue[] {
+  return findings.map(f => ({ path: f.path, severity: "warning", message: `${f.kind} found: ${f.preview}; reference a secret by name instead of pasting it` }));
+}
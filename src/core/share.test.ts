@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { REDACTED } from "./secrets";
+import { decodeShare, encodeShare, readShareFragment, secretPaths, SHARE_LINK_WARN_LENGTH, shareUrl, stripSecrets } from "./share";
+
+const cfg = buildConfig({
+  name: "Helper", instructions: "Answer billing questions. Ünïcødé is fine.", tags: ["billing"], createdAt: "2024-01-01T00:00:00.000Z", updatedAt: "2024-02-01T00:00:00.000Z",
+  customActions: [{ name: "Invoices", type: "openapi", specUrlOrInline: "https://x.io/openapi.json", auth: { type: "api_key", apiKey: { in: "header", name: "X-Key", secretRef: "BILLING_KEY" } } }],
+});
+const { createdAt, updatedAt, ...shared } = cfg;
+const toBase64Url = (s: string) => Buffer.from(s).toString("base64url");
+
+describe("share links", () => {
+  it("round-trip a config, without its timestamps", async () => {
+    const payload = await encodeShare(cfg);
+    expect(payload).toMatch(/^z[A-Za-z0-9_-]+$/);
+    const res = await decodeShare(payload);
+    expect(res.issues).toEqual([]);
+    expect(res.config).toEqual(expect.objectContaining(shared));
+    expect(res.config?.createdAt).not.toBe(createdAt);
+  });
+
+  it("decode the uncompressed form", async () => {
+    expect((await decodeShare(`j${toBase64Url(JSON.stringify(shared))}`)).config).toEqual(expect.objectContaining(shared));
+  });
+
+  it.each([
+    ["x", "Share link uses an unknown encoding"],
+    ["j!!", "Share link is damaged: the data is not valid base64"],
+    [`z${toBase64Url("not deflated")}`, "Share link is damaged: the data did not decompress (it may have been cut off)"],
+  ])("report %j as damaged", async (payload, message) => {
+    expect(await decodeShare(payload)).toEqual({ config: null, issues: [{ path: "", severity: "error", message }], migrations: [] });
+  });
+
+  it("report a cut-off link", async () => {
+    const payload = await encodeShare(cfg);
+    expect((await decodeShare(payload.slice(0, payload.length / 2))).config).toBeNull();
+  });
+
+  it("stay under the warning length for a typical config, but not with a large inline spec", async () => {
+    const link = async (c: typeof cfg) => shareUrl("https://gpt.example.com/", "review", await encodeShare(c)).length;
+    expect(await link(cfg)).toBeLessThan(SHARE_LINK_WARN_LENGTH);
+    const spec = Array.from({ length: 2000 }, (_, i) => ((i * 7919) % 10007).toString(36)).join(" ");
+    expect(await link({ ...cfg, customActions: [{ name: "Big", type: "openapi", specUrlOrInline: spec }] })).toBeGreaterThan(SHARE_LINK_WARN_LENGTH);
+  });
+});
+
+describe("share URLs", () => {
+  it("put the mode and payload in the fragment, replacing any existing one", () => {
+    expect(shareUrl("https://a.io/app#old", "copy", "zAB-_")).toBe("https://a.io/app#copy=zAB-_");
+  });
+
+  it("read back only well-formed share fragments", () => {
+    expect(readShareFragment("#review=zAB-_")).toEqual({ mode: "review", payload: "zAB-_" });
+    expect(readShareFragment("copy=j1")).toEqual({ mode: "copy", payload: "j1" });
+    expect(["", "#edit=z1", "#review=", "#review=a b"].map(readShareFragment)).toEqual([null, null, null, null]);
+  });
+});
+
+describe("stripSecrets", () => {
+  const leaky = buildConfig({
+    instructions: "Use sk-abcdefghijklmnopqrstuvwx when calling.",
+    customActions: [{ name: "a", type: "openapi", auth: { type: "api_key", instructions: "Ask Sam for the key", apiKey: { in: "header", name: "X-Key", secretRef: "A_KEY" } } }],
+  });
+
+  it("lists auth notes and secret-looking fields", () => {
+    expect(secretPaths(leaky)).toEqual(["customActions.0.auth.instructions", "instructions"]);
+    expect(secretPaths(cfg)).toEqual([]);
+  });
+
+  it("drops auth notes and redacts secrets, keeping secret names", () => {
+    const clean = stripSecrets(leaky);
+    expect(clean.instructions).toBe(`Use ${REDACTED} when calling.`);
+    expect(clean.customActions?.[0].auth).toEqual({ type: "api_key", apiKey: { in: "header", name: "X-Key", secretRef: "A_KEY" } });
+    expect(stripSecrets(cfg)).toBe(cfg);
+  });
+});
@@ -0,0 +1,81 @@
+import type { CustomGPTConfig } from "./types";
+import { parseConfig, type ParseResult } from "./parseConfig";
+import { redactSecrets, scanSecrets } from "./secrets";
+
+/** `review` opens the shared config read-only; `copy` saves it as a new workspace entry. */
+export type ShareMode = "review" | "copy";
+export const SHARE_MODES: ShareMode[] = ["review", "copy"];
+
+/** Longer links get a warning: chat apps, email clients and some browsers truncate URLs past about this length. */
+export const SHARE_LINK_WARN_LENGTH = 2000;
+
+/**
+ * Fields that may hold credentials or internal notes, cleaned by `stripSecrets`: auth instructions, plus every field
+ * where the secret scanner finds a key-, token- or password-looking value. Paths use the config's dotted form.
+ */
+export function secretPaths(cfg: CustomGPTConfig): string[] {
+  const notes = (cfg.customActions || []).flatMap((a, i) => a.auth?.instructions?.trim() ? [`customActions.${i}.auth.instructions`] : []);
+  return [...new Set([...notes, ...scanSecrets(cfg).map(f => f.path)])];
+}
+
+/** Drops auth instructions and redacts secret-looking values elsewhere; secret references (names) are kept. */
+export function stripSecrets(cfg: CustomGPTConfig): CustomGPTConfig {
+  if (!secretPaths(cfg).length) return cfg;
+  return redactSecrets({
+    ...cfg,
+    customActions: cfg.customActions?.map(a => {
+      if (!a.auth?.instructions) return a;
+      const { instructions, ...auth } = a.auth;
+      return { ...a, auth };
+    }),
+  });
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  return new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+/**
+ * The config as a URL-safe string: compact JSON without timestamps, raw-deflated when the runtime has
+ * `CompressionStream`. The first character records the encoding (`z` deflated, `j` plain).
+ */
+export async function encodeShare(cfg: CustomGPTConfig): Promise<string> {
+  const { createdAt, updatedAt, ...rest } = cfg;
+  const json = new TextEncoder().encode(JSON.stringify(rest));
+  if (typeof CompressionStream === "undefined") return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await pipe(json, new CompressionStream("deflate-raw")))}`;
+}
+
+/** Reverses `encodeShare`; the JSON then goes through `parseConfig`, so old links are migrated and checked like any import. */
+export async function decodeShare(payload: string): Promise<ParseResult> {
+  const fail = (message: string): ParseResult => ({ config: null, issues: [{ path: "", severity: "error", message }], migrations: [] });
+  let bytes: Uint8Array;
+  try { bytes = fromBase64Url(payload.slice(1)); } catch { return fail("Share link is damaged: the data is not valid base64"); }
+  if (payload[0] === "z") {
+    if (typeof DecompressionStream === "undefined") return fail("This browser cannot decompress share links");
+    try { bytes = await pipe(bytes, new DecompressionStream("deflate-raw")); } catch { return fail("Share link is damaged: the data did not decompress (it may have been cut off)"); }
+  } else if (payload[0] !== "j") return fail("Share link uses an unknown encoding");
+  return parseConfig(new TextDecoder().decode(bytes));
+}
+
+/** `<base>#<mode>=<payload>`; any existing fragment on `base` is replaced. */
+export function shareUrl(base: string, mode: ShareMode, payload: string) {
+  return `${base.split("#")[0]}#${mode}=${payload}`;
+}
+
+/** The share mode and payload in a location hash, or null when the hash is not a share link. */
+export function readShareFragment(hash: string): { mode: ShareMode; payload: string } | null {
+  const m = /^#?(review|copy)=([A-Za-z0-9_-]+)$/.exec(hash);
+  return m ? { mode: m[1] as ShareMode, payload: m[2] } : null;
+}
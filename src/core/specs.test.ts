@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { checkSpecAuth, inspectActionSpec, looksLikeUrl, parseGraphQLSDL, parseOpenAPI } from "./specs";
+
+const OPENAPI_YAML = `openapi: 3.1.0
+info:
+  title: Tickets
+  version: "2.0"
+servers:
+  - url: https://{region}.api.example.com/v1
+    variables:
+      region:
+        default: EU
+  - url: /relative
+paths:
+  /tickets:
+    get:
+      operationId: listTickets
+      summary: List tickets
+    post:
+      operationId: createTicket
+      security:
+        - key: []
+  /tickets/{id}:
+    parameters: []
+    delete: {}
+components:
+  securitySchemes:
+    key:
+      type: apiKey
+      in: header
+      name: X-Key
+    login:
+      type: oauth2
+`;
+
+const SWAGGER_JSON = JSON.stringify({
+  swagger: "2.0", host: "legacy.example.com:8443", info: { title: "Legacy" }, security: [{ basic: [] }],
+  paths: { "/ping": { get: { summary: "Ping" } } }, securityDefinitions: { basic: { type: "basic" } },
+});
+
+describe("parseOpenAPI", () => {
+  it("reads operations, schemes, hosts and info from YAML", () => {
+    expect(parseOpenAPI(OPENAPI_YAML)).toEqual({
+      format: "openapi", title: "Tickets", version: "2.0",
+      operations: [
+        { method: "GET", path: "/tickets", operationId: "listTickets", summary: "List tickets" },
+        { method: "POST", path: "/tickets", operationId: "createTicket", summary: undefined },
+        { method: "DELETE", path: "/tickets/{id}", operationId: undefined, summary: undefined },
+      ],
+      securitySchemes: [{ name: "key", type: "apiKey", authType: "api_key" }, { name: "login", type: "oauth2", authType: "oauth2" }],
+      requiresAuth: true, hosts: ["eu.api.example.com"],
+    });
+  });
+
+  it("reads Swagger 2.0 from JSON", () => {
+    expect(parseOpenAPI(SWAGGER_JSON)).toMatchObject({ format: "swagger", title: "Legacy", hosts: ["legacy.example.com"], requiresAuth: true, securitySchemes: [{ name: "basic", authType: "api_key" }] });
+  });
+
+  it("does not count an empty security requirement as auth", () => {
+    expect(parseOpenAPI(JSON.stringify({ openapi: "3.0.0", security: [{}], paths: {} })).requiresAuth).toBe(false);
+  });
+
+  it.each([
+    ["openapi: [", /^YAML: /],
+    ["{ nope", /^JSON: /],
+    ["- a\n- b", /^Spec must be an object$/],
+    ["info: {}\npaths: {}", /^Missing "openapi" version field$/],
+    ["openapi: 3.0.0", /^Missing "paths" object$/],
+  ])("reports %j as an error", (text, error) => {
+    expect(parseOpenAPI(text).error).toMatch(error);
+  });
+});
+
+describe("parseGraphQLSDL", () => {
+  it("reads root fields, honouring a schema block, and ignores braces in comments and descriptions", () => {
+    const report = parseGraphQLSDL(`
+      """ A {weird} description """
+      schema { query: Root mutation: Changes }
+      # comment with }
+      type Root { ticket(id: ID!): Ticket tickets(first: Int = 10): [Ticket!]! }
+      type Changes { close(id: ID!): Boolean }
+      type Ticket { id: ID! title: String }
+    `);
+    expect(report.error).toBeUndefined();
+    expect(report.operations).toEqual([
+      { method: "QUERY", path: "ticket", summary: "Ticket" },
+      { method: "QUERY", path: "tickets", summary: "[Ticket!]!" },
+      { method: "MUTATION", path: "close", summary: "Boolean" },
+    ]);
+  });
+
+  it.each([
+    ["type Query { a: Int", "Unbalanced braces or parentheses"],
+    ["hello world", "No GraphQL type definitions found"],
+    ["type Ticket { id: ID }", "No Query, Mutation or Subscription fields found"],
+  ])("reports %j as an error", (text, error) => {
+    expect(parseGraphQLSDL(text).error).toBe(error);
+  });
+});
+
+describe("inspectActionSpec", () => {
+  it("inspects inline specs only, by action type", () => {
+    expect(inspectActionSpec({ name: "a", type: "openapi", specUrlOrInline: "https://x.io/openapi.json" })).toBeNull();
+    expect(inspectActionSpec({ name: "a", type: "openapi", specUrlOrInline: "  " })).toBeNull();
+    expect(inspectActionSpec({ name: "a", type: "webhook", specUrlOrInline: "{ }" })).toBeNull();
+    expect(inspectActionSpec({ name: "a", type: "graphql", specUrlOrInline: "type Query { a: Int }" })?.format).toBe("graphql");
+    expect(inspectActionSpec({ name: "a", type: "openapi", specUrlOrInline: OPENAPI_YAML })?.format).toBe("openapi");
+  });
+
+  it("treats single-line, space-free, non-JSON text as a URL", () => {
+    expect(looksLikeUrl(" https://x.io/spec ")).toBe(true);
+    expect(looksLikeUrl("{}")).toBe(false);
+    expect(looksLikeUrl("openapi: 3.0.0")).toBe(false);
+  });
+});
+
+describe("checkSpecAuth", () => {
+  const report = parseOpenAPI(OPENAPI_YAML);
+
+  it("accepts an auth type the spec declares", () => {
+    expect(checkSpecAuth(report, "api_key")).toEqual([]);
+    expect(checkSpecAuth(report, "oauth2")).toEqual([]);
+  });
+
+  it("flags missing auth and mismatched schemes", () => {
+    expect(checkSpecAuth(report, "none")).toEqual(['Spec requires authentication (key, login) but auth is "none"']);
+    expect(checkSpecAuth(parseOpenAPI(SWAGGER_JSON), "oauth2")).toEqual(['Auth is "oauth2" but the spec only declares api_key schemes (basic)']);
+    expect(checkSpecAuth(parseOpenAPI("openapi: 3.0.0\npaths: {}"), "api_key")).toEqual(['Auth is "api_key" but the spec declares no security schemes']);
+  });
+});
@@ -0,0 +1,144 @@
+import type { CustomAction } from "./types";
+import { parseYAML, YAMLError } from "./yaml";
+
+export type SpecOperation = { method: string; path: string; operationId?: string; summary?: string };
+export type SpecSecurityScheme = { name: string; type: string; authType: NonNullable<CustomAction["auth"]>["type"] };
+/** What could be read out of an action's inline spec. `error` is set when the spec did not parse. */
+export type SpecReport = {
+  format: "openapi" | "swagger" | "graphql";
+  title?: string;
+  version?: string;
+  operations: SpecOperation[];
+  securitySchemes: SpecSecurityScheme[];
+  /** True when the spec applies a security requirement globally or to any operation. */
+  requiresAuth: boolean;
+  hosts: string[];
+  error?: string;
+};
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+type Obj = Record<string, unknown>;
+const isObj = (v: unknown): v is Obj => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** True when a spec string is meant as a URL rather than an inline spec (single line, no spaces, not JSON). */
+export function looksLikeUrl(v: string) { const s = v.trim(); return !!s && !/\s/.test(s) && !/^[{[]/.test(s); }
+
+function hostOf(url: string) {
+  try { return new URL(url).hostname.toLowerCase() || null; }
+  catch { return null; }
+}
+
+/** Maps an OpenAPI/Swagger security scheme onto the auth types an action can declare. */
+function authTypeOf(scheme: Obj): SpecSecurityScheme["authType"] {
+  const t = String(scheme.type ?? "");
+  if (t === "oauth2" || t === "openIdConnect") return "oauth2";
+  if (t === "apiKey" || t === "http" || t === "basic") return "api_key";
+  return "none";
+}
+
+function failed(format: SpecReport["format"], error: string): SpecReport {
+  return { format, operations: [], securitySchemes: [], requiresAuth: false, hosts: [], error };
+}
+
+/** Reads an OpenAPI 3.x or Swagger 2.0 document given as JSON or YAML text. */
+export function parseOpenAPI(text: string): SpecReport {
+  let doc: unknown;
+  try { doc = /^\s*[{[]/.test(text) ? JSON.parse(text) : parseYAML(text); }
+  catch (e) { return failed("openapi", e instanceof YAMLError ? `YAML: ${e.message}` : `JSON: ${(e as Error).message}`); }
+  if (!isObj(doc)) return failed("openapi", "Spec must be an object");
+  const swagger = typeof doc.swagger === "string" || typeof doc.swagger === "number";
+  const format: SpecReport["format"] = swagger ? "swagger" : "openapi";
+  if (!swagger && doc.openapi === undefined) return failed(format, `Missing "openapi" version field`);
+  if (!isObj(doc.paths)) return failed(format, `Missing "paths" object`);
+
+  const info = isObj(doc.info) ? doc.info : {};
+  const operations: SpecOperation[] = [];
+  let requiresAuth = Array.isArray(doc.security) && doc.security.some(r => isObj(r) && Object.keys(r).length > 0);
+  for (const [path, item] of Object.entries(doc.paths)) {
+    if (!isObj(item)) continue;
+    for (const method of HTTP_METHODS) {
+      const op = item[method];
+      if (!isObj(op)) continue;
+      operations.push({
+        method: method.toUpperCase(), path,
+        operationId: typeof op.operationId === "string" ? op.operationId : undefined,
+        summary: typeof op.summary === "string" ? op.summary : undefined,
+      });
+      if (Array.isArray(op.security) && op.security.some(r => isObj(r) && Object.keys(r).length > 0)) requiresAuth = true;
+    }
+  }
+
+  const schemes = swagger ? doc.securityDefinitions : isObj(doc.components) ? doc.components.securitySchemes : undefined;
+  const securitySchemes = Object.entries(isObj(schemes) ? schemes : {})
+    .filter((e): e is [string, Obj] => isObj(e[1]))
+    .map(([name, s]) => ({ name, type: String(s.type ?? "unknown") + (s.scheme ? `/${s.scheme}` : ""), authType: authTypeOf(s) }));
+
+  const hosts = new Set<string>();
+  if (swagger) {
+    if (typeof doc.host === "string") { const h = hostOf(`https://${doc.host}`); if (h) hosts.add(h); }
+  } else if (Array.isArray(doc.servers)) {
+    for (const server of doc.servers) {
+      if (!isObj(server) || typeof server.url !== "string") continue;
+      // Fill `{var}` templates from their declared defaults
+      const vars = isObj(server.variables) ? server.variables : {};
+      const url = server.url.replace(/\{(\w+)\}/g, (m, k) => { const v = vars[k]; return isObj(v) && typeof v.default === "string" ? v.default : m; });
+      const h = /\{/.test(url) ? null : hostOf(url);
+      if (h) hosts.add(h);
+    }
+  }
+
+  return {
+    format, operations, securitySchemes, requiresAuth, hosts: [...hosts],
+    title: typeof info.title === "string" ? info.title : undefined,
+    version: typeof info.version === "string" ? info.version : undefined,
+  };
+}
+
+/** Reads root operation fields (query/mutation/subscription) out of a GraphQL SDL document. */
+export function parseGraphQLSDL(text: string): SpecReport {
+  // Drop descriptions, strings and comments so braces inside them don't confuse the scan
+  const src = text.replace(/"""[^]*?"""/g, " ").replace(/"(?:[^"\\\n]|\\.)*"/g, '""').replace(/#[^\n]*/g, " ");
+  let depth = 0;
+  for (const c of src) { if (c === "{" || c === "(") depth++; else if (c === "}" || c === ")") depth--; if (depth < 0) break; }
+  if (depth !== 0) return failed("graphql", "Unbalanced braces or parentheses");
+  if (!/\b(?:type|interface|input|enum|union|scalar|schema)\b/.test(src)) return failed("graphql", "No GraphQL type definitions found");
+
+  const roots: Record<string, string> = { query: "Query", mutation: "Mutation", subscription: "Subscription" };
+  const schema = /\bschema\s*(?:@[^{]*)?\{([^}]*)\}/.exec(src);
+  if (schema) for (const m of schema[1].matchAll(/(query|mutation|subscription)\s*:\s*(\w+)/g)) roots[m[1]] = m[2];
+
+  const operations: SpecOperation[] = [];
+  for (const m of src.matchAll(/\b(?:extend\s+)?type\s+(\w+)[^{]*\{([^}]*)\}/g)) {
+    const kind = Object.keys(roots).find(k => roots[k] === m[1]);
+    if (!kind) continue;
+    // Collapse argument lists so each field reads as `name: Type`
+    const body = m[2].replace(/\([^)]*\)/g, "");
+    for (const f of body.matchAll(/(\w+)\s*:\s*([\w![\]]+)/g)) operations.push({ method: kind.toUpperCase(), path: f[1], summary: f[2] });
+  }
+  if (!operations.length) return failed("graphql", "No Query, Mutation or Subscription fields found");
+  return { format: "graphql", operations, securitySchemes: [], requiresAuth: false, hosts: [] };
+}
+
+/** Inspects an action's inline spec. Returns null for URL specs, empty specs, and action types without a spec format. */
+export function inspectActionSpec(action: CustomAction): SpecReport | null {
+  const spec = action.specUrlOrInline || "";
+  if (!spec.trim() || looksLikeUrl(spec)) return null;
+  if (action.type === "openapi") return parseOpenAPI(spec);
+  if (action.type === "graphql") return parseGraphQLSDL(spec);
+  return null;
+}
+
+/** Compares an action's chosen auth type against the schemes its spec declares. */
+export function checkSpecAuth(report: SpecReport, authType: SpecSecurityScheme["authType"]): string[] {
+  if (report.error || report.format === "graphql") return [];
+  const schemes = report.securitySchemes;
+  const names = (t: SpecSecurityScheme["authType"]) => schemes.filter(s => s.authType === t).map(s => s.name).join(", ");
+  if (authType === "none") return report.requiresAuth && schemes.length ? [`Spec requires authentication (${schemes.map(s => s.name).join(", ")}) but auth is "none"`] : [];
+  if (!schemes.length) return [`Auth is "${authType}" but the spec declares no security schemes`];
+  if (!schemes.some(s => s.authType === authType)) {
+    const other = authType === "api_key" ? "oauth2" : "api_key";
+    return [`Auth is "${authType}" but the spec only declares ${other} schemes (${names(other) || schemes.map(s => s.name).join(", ")})`];
+  }
+  return [];
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { diffConfigs } from "./diff";
+import { applyTemplate, getTemplate, layerSafety, mergeConfig, templateConfig, TEMPLATES, type Template } from "./templates";
+
+const current = buildConfig({
+  name: "Mine", instructions: "Mine.", builtInTools: ["web"], tags: ["Support"], createdAt: "2024-01-01T00:00:00.000Z",
+  conversationStarters: [{ title: "Hello", prompt: "Say hello." }],
+  customActions: [{ name: "Tickets", type: "openapi" }],
+  safety: { jailbreakDefense: false, customDisallowedPhrases: ["secret"] },
+  locales: { fr: { name: "Le mien", sampleQuestions: ["Quoi ?"] }, "ur-PK": { name: "میرا" } },
+});
+
+const template: Template = {
+  id: "t", name: "T", description: "",
+  config: {
+    name: "Template name", instructions: "Theirs.", builtInTools: ["code", "web"], tags: ["support", "billing"],
+    conversationStarters: [{ title: "hello", prompt: "Say hi." }, { title: "Bye", prompt: "Say bye." }],
+    customActions: [{ name: "tickets", type: "graphql" }],
+    locales: { fr: { instructions: "Les leurs.", sampleQuestions: ["quoi ?", "Comment ?"] }, "ur-pk": { description: "ٹیمپلیٹ" }, de: { name: "Vorlage" } },
+  },
+};
+
+describe("mergeConfig", () => {
+  it("lets the patch win on scalars and unions lists, keeping the patch's version of a clash", () => {
+    const out = mergeConfig(current, templateConfig(template.config));
+    expect(out).toMatchObject({ name: "Mine", instructions: "Theirs.", builtInTools: ["web", "code"], tags: ["support", "billing"] });
+    expect(out.conversationStarters).toEqual([{ title: "hello", prompt: "Say hi." }, { title: "Bye", prompt: "Say bye." }]);
+    expect(out.customActions).toEqual([{ name: "tickets", type: "graphql" }]);
+  });
+
+  it("merges locale overrides per tag, matching tags case-insensitively", () => {
+    const out = mergeConfig(current, template.config);
+    expect(out.locales).toEqual({
+      fr: { name: "Le mien", instructions: "Les leurs.", sampleQuestions: ["quoi ?", "Comment ?"] },
+      "ur-PK": { name: "میرا", description: "ٹیمپلیٹ" },
+      de: { name: "Vorlage" },
+    });
+  });
+
+  it("keeps the base's locales when the patch has none", () => {
+    expect(mergeConfig(current, { instructions: "x" }).locales).toEqual(current.locales);
+  });
+});
+
+describe("applyTemplate", () => {
+  it("keeps name and timestamps in both modes", () => {
+    for (const mode of ["merge", "replace"] as const) expect(applyTemplate(current, template, mode)).toMatchObject({ name: "Mine", createdAt: current.createdAt });
+  });
+
+  it("replace starts from defaults, merge from the current config", () => {
+    expect(applyTemplate(current, template, "replace").safety?.customDisallowedPhrases).toEqual([]);
+    expect(applyTemplate(current, template, "merge").safety?.customDisallowedPhrases).toEqual(["secret"]);
+  });
+
+  it("shows merged locale changes in the preview diff", () => {
+    const paths = diffConfigs(current, applyTemplate(current, template, "merge")).changes.map(c => c.path);
+    expect(paths).toEqual(expect.arrayContaining(["locales.fr.instructions", "locales.ur-PK.description", "locales.de"]));
+  });
+
+  it("forces org safety switches and adds org phrases", () => {
+    const out = applyTemplate(current, template, "merge", { jailbreakDefense: true, customDisallowedPhrases: ["Secret", "internal"] });
+    expect(out.safety).toMatchObject({ jailbreakDefense: true, customDisallowedPhrases: ["Secret", "internal"] });
+    expect(layerSafety(current, {}).safety).toEqual(current.safety);
+  });
+});
+
+describe("TEMPLATES", () => {
+  it("have unique ids and can be looked up, including extras", () => {
+    expect(new Set(TEMPLATES.map(t => t.id)).size).toBe(TEMPLATES.length);
+    expect(getTemplate("blank")).toBeDefined();
+    expect(getTemplate("t", [template])).toBe(template);
+  });
+});
@@ -0,0 +1,209 @@
+import { BUILT_IN_TOOLS, type CustomGPTConfig, type LocaleOverrides, type SafetyPolicy } from "./types";
+import { buildConfig } from "./build";
+import { documentName } from "./knowledge";
+
+/** A named starting point: a partial config, layered over `defaultConfig` or merged into an existing config. */
+export type Template = { id: string; name: string; description: string; config: Partial<CustomGPTConfig> };
+/** `merge` keeps the current config and lays the template over it; `replace` starts again from defaults + template. */
+export type ApplyMode = "merge" | "replace";
+
+/** Built-in gallery. Templates leave `name` alone so applying one never renames the config. */
+export const TEMPLATES: Template[] = [
+  { id: "blank", name: "Blank", description: "The default starter config", config: {} },
+  {
+    id: "customer-support", name: "Customer support", description: "Answers product questions from your docs and hands off to a human when stuck",
+    config: {
+      description: "Answers customer questions about our product and escalates when needed.",
+      instructions: [
+        "You are a customer support agent for our product.",
+        "- Answer only from the attached knowledge; if the answer is not there, say so and offer to escalate.",
+        "- Ask for an order or ticket number before discussing a specific account.",
+        "- Never promise refunds, credits or delivery dates.",
+        "- Close each reply by asking whether the issue is resolved.",
+      ].join("\n"),
+      persona: { writingTone: "friendly", emojiUse: "none", responseLength: "short" },
+      builtInTools: ["retrieval"],
+      knowledge: { enabled: true, documents: [] },
+      memory: { enabled: true, scope: "conversation", dataRetentionDays: 30 },
+      safety: { jailbreakDefense: true, blockDisallowedContent: true, piiRedaction: true, customDisallowedPhrases: [] },
+      conversationStarters: [
+        { title: "Track my order", prompt: "I'd like to check the status of my order." },
+        { title: "Report a problem", prompt: "Something isn't working the way I expected." },
+        { title: "Talk to a human", prompt: "I'd like to speak to a support agent." },
+      ],
+      sampleQuestions: ["How do I reset my password?", "What is your return policy?"],
+      tags: ["support"],
+    },
+  },
+  {
+    id: "tutor", name: "Tutor", description: "Socratic tutor that guides students to answers instead of giving them away",
+    config: {
+      description: "A patient tutor that teaches through questions and worked examples.",
+      instructions: [
+        "You are a patient tutor.",
+        "- Start by asking what the student already knows.",
+        "- Guide with hints and questions; do not hand over final answers to graded work.",
+        "- Break problems into small steps and check understanding after each one.",
+        "- Finish with a short practice question.",
+      ].join("\n"),
+      persona: { writingTone: "friendly", emojiUse: "light", responseLength: "medium" },
+      builtInTools: ["code", "image"],
+      memory: { enabled: true, scope: "user", dataRetentionDays: 90 },
+      safety: { jailbreakDefense: true, blockDisallowedContent: true, piiRedaction: true, customDisallowedPhrases: [] },
+      conversationStarters: [
+        { title: "Explain a concept", prompt: "Can you help me understand a topic I'm stuck on?" },
+        { title: "Check my work", prompt: "Here is my answer; can you tell me where I went wrong?" },
+        { title: "Quiz me", prompt: "Give me a few practice questions on what we covered." },
+      ],
+      sampleQuestions: ["Why does dividing by a fraction flip it?"],
+      tags: ["education"],
+    },
+  },
+  {
+    id: "code-reviewer", name: "Code reviewer", description: "Reviews diffs for bugs, security issues and readability",
+    config: {
+      description: "Reviews code changes and explains the most important issues first.",
+      instructions: [
+        "You are a senior code reviewer.",
+        "- Lead with correctness and security problems, then performance, then style.",
+        "- Quote the exact lines you are commenting on and suggest a concrete fix.",
+        "- Say clearly when a change looks good; do not invent problems.",
+        "- Never ask for or repeat credentials, tokens or keys found in the code.",
+      ].join("\n"),
+      persona: { writingTone: "technical", emojiUse: "none", responseLength: "medium" },
+      builtInTools: ["code"],
+      memory: { enabled: false, scope: "conversation", dataRetentionDays: 0 },
+      safety: { jailbreakDefense: true, blockDisallowedContent: true, piiRedaction: false, customDisallowedPhrases: [] },
+      conversationStarters: [
+        { title: "Review a diff", prompt: "Please review this diff:" },
+        { title: "Security pass", prompt: "Look at this code for security issues only:" },
+      ],
+      sampleQuestions: ["Is this function safe to call concurrently?"],
+      tags: ["engineering"],
+    },
+  },
+  {
+    id: "data-analyst", name: "Data analyst", description: "Explores uploaded data, runs analyses and charts results",
+    config: {
+      description: "Analyses datasets, explains findings and produces charts.",
+      instructions: [
+        "You are a careful data analyst.",
+        "- Restate the question and list any assumptions before analysing.",
+        "- Inspect the data (columns, types, missing values) before drawing conclusions.",
+        "- Show the code you ran and summarise results in plain language.",
+        "- Call out small samples, outliers and correlation-versus-causation risks.",
+      ].join("\n"),
+      persona: { writingTone: "neutral", emojiUse: "none", responseLength: "long" },
+      builtInTools: ["code", "retrieval", "vision"],
+      knowledge: { enabled: true, documents: [] },
+      memory: { enabled: false, scope: "conversation", dataRetentionDays: 0 },
+      safety: { jailbreakDefense: true, blockDisallowedContent: true, piiRedaction: true, customDisallowedPhrases: [] },
+      conversationStarters: [
+        { title: "Explore a dataset", prompt: "Here's a CSV; give me an overview of what's in it." },
+        { title: "Chart a trend", prompt: "Plot this metric over time and describe the trend." },
+      ],
+      sampleQuestions: ["Which region grew fastest last quarter?"],
+      tags: ["analytics"],
+    },
+  },
+  {
+    id: "writing-coach", name: "Writing coach", description: "Edits drafts for clarity and tone while keeping the author's voice",
+    config: {
+      description: "Helps tighten drafts without rewriting them into someone else's voice.",
+      instructions: [
+        "You are a writing coach.",
+        "- Ask who the audience is if it is not obvious.",
+        "- Suggest edits as a short list before offering a rewritten version.",
+        "- Preserve the author's voice; explain why each change helps.",
+      ].join("\n"),
+      persona: { writingTone: "casual", emojiUse: "light", responseLength: "medium" },
+      builtInTools: ["web"],
+      conversationStarters: [
+        { title: "Tighten this", prompt: "Make this paragraph shorter without losing meaning:" },
+        { title: "Change the tone", prompt: "Rewrite this to sound more formal:" },
+      ],
+      tags: ["writing"],
+    },
+  },
+];
+
+export function getTemplate(id: string, extra: Template[] = []) { return [...TEMPLATES, ...extra].find(t => t.id === id); }
+
+/** The part of a config worth keeping as a template: everything except identity, version and timestamps. */
+export function templateConfig(cfg: Partial<CustomGPTConfig>): Partial<CustomGPTConfig> {
+  const { schemaVersion, name, createdAt, updatedAt, ...rest } = cfg;
+  return rest;
+}
+
+function union<T>(a: T[] | undefined, b: T[] | undefined, key: (v: T) => string): T[] | undefined {
+  if (!a || !b) return b ?? a;
+  const out = new Map<string, T>();
+  for (const v of [...a, ...b]) out.set(key(v), v);
+  return [...out.values()];
+}
+const fold = (s: string) => s.trim().toLowerCase();
+
+function mergeLocale(base: LocaleOverrides, patch: LocaleOverrides): LocaleOverrides {
+  const out: LocaleOverrides = { ...base };
+  for (const k of ["name", "description", "instructions"] as const) if (patch[k] !== undefined) out[k] = patch[k];
+  const starters = union(base.conversationStarters, patch.conversationStarters, s => fold(s.title));
+  if (starters) out.conversationStarters = starters;
+  const questions = union(base.sampleQuestions, patch.sampleQuestions, fold);
+  if (questions) out.sampleQuestions = questions;
+  return out;
+}
+
+/**
+ * Lays `patch` over `base`: scalars and object fields from the patch win, lists are combined
+ * (actions by name and starters by title, with the patch's version kept on a clash). Locales merge the same way,
+ * per tag, matched case-insensitively.
+ */
+export function mergeConfig(base: CustomGPTConfig, patch: Partial<CustomGPTConfig>): CustomGPTConfig {
+  const out: CustomGPTConfig = { ...base };
+  for (const k of ["description", "instructions", "language"] as const) if (patch[k] !== undefined) out[k] = patch[k]!;
+  if (patch.persona) out.persona = { ...base.persona, ...patch.persona };
+  const tools = union(base.builtInTools, patch.builtInTools, t => t);
+  if (tools) out.builtInTools = BUILT_IN_TOOLS.filter(t => tools.includes(t));
+  const actions = union(base.customActions, patch.customActions, a => fold(a.name));
+  if (actions) out.customActions = actions;
+  if (patch.knowledge) out.knowledge = { ...base.knowledge, ...patch.knowledge, documents: union(base.knowledge?.documents, patch.knowledge.documents, d => fold(documentName(d))) };
+  if (patch.memory) out.memory = { ...base.memory, ...patch.memory };
+  if (patch.safety) out.safety = { ...base.safety, ...patch.safety, customDisallowedPhrases: union(base.safety?.customDisallowedPhrases, patch.safety.customDisallowedPhrases, fold) };
+  const starters = union(base.conversationStarters, patch.conversationStarters, s => fold(s.title));
+  if (starters) out.conversationStarters = starters;
+  const questions = union(base.sampleQuestions, patch.sampleQuestions, fold);
+  if (questions) out.sampleQuestions = questions;
+  const tags = union(base.tags, patch.tags, fold);
+  if (tags) out.tags = tags;
+  if (patch.locales) {
+    const locales = { ...base.locales };
+    for (const [tag, o] of Object.entries(patch.locales)) {
+      const key = Object.keys(locales).find(k => fold(k) === fold(tag)) ?? tag;
+      locales[key] = mergeLocale(locales[key] || {}, o);
+    }
+    out.locales = locales;
+  }
+  return out;
+}
+
+/**
+ * Org-wide safety defaults win over whatever a template or user chose. Only the switches the org sets are forced;
+ * its disallowed phrases are added to the config's own.
+ */
+export function layerSafety(cfg: CustomGPTConfig, org: SafetyPolicy): CustomGPTConfig {
+  const safety = { ...cfg.safety };
+  for (const k of ["jailbreakDefense", "blockDisallowedContent", "piiRedaction"] as const) if (org[k] !== undefined) safety[k] = org[k];
+  const phrases = union(safety.customDisallowedPhrases, org.customDisallowedPhrases, fold);
+  if (phrases) safety.customDisallowedPhrases = phrases;
+  return { ...cfg, safety };
+}
+
+/** The config that results from applying `template` to `current`. Name and timestamps are always kept. */
+export function applyTemplate(current: CustomGPTConfig, template: Template, mode: ApplyMode, orgSafety?: SafetyPolicy): CustomGPTConfig {
+  const { name, createdAt, updatedAt } = current;
+  const patch = templateConfig(template.config);
+  const applied = mode === "replace"
+    ? buildConfig({ ...patch, name, ...(createdAt && { createdAt }), ...(updatedAt && { updatedAt }) })
+    : mergeConfig(current, patch);
+  return orgSafety ? layerSafety(applied, orgSafety) : applied;
+}
@@ -0,0 +1,68 @@
+/** Types */
+export type BuiltInTool = "web" | "code" | "retrieval" | "image" | "vision";
+/**
+ * Secrets never live in a config: `*Ref` fields hold the name of one (e.g. `SUPPORT_API_KEY`) that the host
+ * supplies at deploy time. `apiKey` applies to `api_key` auth, `oauth2` to `oauth2` auth.
+ */
+export type ApiKeyAuth = { in: "header" | "query"; name: string; secretRef?: string };
+export type OAuth2Auth = { authorizationUrl: string; tokenUrl: string; scopes?: string[]; pkce?: boolean; clientIdRef?: string; clientSecretRef?: string };
+export type ActionAuth = { type: "none" | "api_key" | "oauth2"; instructions?: string; apiKey?: ApiKeyAuth; oauth2?: OAuth2Auth };
+export type CustomAction = {
+  name: string;
+  description?: string;
+  type: "openapi" | "json-rpc" | "graphql" | "webhook";
+  specUrlOrInline?: string;
+  auth?: ActionAuth;
+  rateLimitPerMinute?: number;
+  allowedDomains?: string[];
+};
+export type MemoryPolicy = { enabled: boolean; scope?: "conversation" | "user"; dataRetentionDays?: number };
+export type SafetyPolicy = { jailbreakDefense?: boolean; blockDisallowedContent?: boolean; piiRedaction?: boolean; customDisallowedPhrases?: string[] };
+/** An attached knowledge file. Contents travel separately (see the zip bundle); the config keeps what identifies them. */
+export type KnowledgeFile = { name: string; mimeType: string; size: number; sha256: string; pages?: number; rows?: number };
+/** A bare string is a name-only hint (the pre-1.2 form); a `KnowledgeFile` describes an attached file. */
+export type KnowledgeDocument = string | KnowledgeFile;
+/** How attached files are split for retrieval, in characters. */
+export type ChunkingSettings = { chunkSize: number; chunkOverlap: number };
+export type KnowledgeBase = { enabled: boolean; documents?: KnowledgeDocument[]; chunking?: ChunkingSettings };
+export type ConversationStarter = { title: string; prompt: string };
+export type PersonaStyle = {
+  writingTone?: "casual" | "formal" | "technical" | "friendly" | "playful" | "neutral";
+  emojiUse?: "none" | "light" | "moderate" | "heavy";
+  responseLength?: "short" | "medium" | "long";
+};
+/** Per-locale overrides; a field left out falls back to the default locale's (the config's own `language`). */
+export type LocaleOverrides = { name?: string; description?: string; instructions?: string; conversationStarters?: ConversationStarter[]; sampleQuestions?: string[] };
+export type CustomGPTConfig = {
+  schemaVersion: string;
+  name: string;
+  description?: string;
+  instructions: string;
+  language?: string;
+  /** Keyed by IETF language tag, e.g. `ur`, `ar`, `en-GB`. */
+  locales?: Record<string, LocaleOverrides>;
+  persona?: PersonaStyle;
+  builtInTools?: BuiltInTool[];
+  customActions?: CustomAction[];
+  knowledge?: KnowledgeBase;
+  memory?: MemoryPolicy;
+  safety?: SafetyPolicy;
+  conversationStarters?: ConversationStarter[];
+  sampleQuestions?: string[];
+  tags?: string[];
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/** A problem found in a config, addressed by a dotted field path (e.g. `customActions.0.name`). */
+export type ConfigIssue = { path: string; severity: "error" | "warning"; message: string };
+
+/** Allowed enum values, shared by the editor selects and the parsers */
+export const BUILT_IN_TOOLS: BuiltInTool[] = ["web", "code", "retrieval", "image", "vision"];
+export const ACTION_TYPES: CustomAction["type"][] = ["openapi", "json-rpc", "graphql", "webhook"];
+export const AUTH_TYPES: ActionAuth["type"][] = ["none", "api_key", "oauth2"];
+export const API_KEY_LOCATIONS: ApiKeyAuth["in"][] = ["header", "query"];
+export const WRITING_TONES: NonNullable<PersonaStyle["writingTone"]>[] = ["casual", "formal", "technical", "friendly", "playful", "neutral"];
+export const EMOJI_USES: NonNullable<PersonaStyle["emojiUse"]>[] = ["none", "light", "moderate", "heavy"];
+export const RESPONSE_LENGTHS: NonNullable<PersonaStyle["responseLength"]>[] = ["short", "medium", "long"];
+export const MEMORY_SCOPES: NonNullable<MemoryPolicy["scope"]>[] = ["conversation", "user"];
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildConfig } from "./build";
+import { defaultConfig } from "./defaults";
+import type { CustomGPTConfig } from "./types";
+import { countBySeverity, isHttpUrl, isLanguageTag, issuesUnder, validateConfig } from "./validate";
+
+const issuesFor = (patch: Partial<CustomGPTConfig>) => validateConfig(buildConfig({ name: "Helper", instructions: "Be brief.", ...patch }));
+const at = (patch: Partial<CustomGPTConfig>) => issuesFor(patch).map(i => `${i.severity} ${i.path}`);
+
+describe("validateConfig", () => {
+  it("passes the default config", () => {
+    expect(validateConfig(defaultConfig)).toEqual([]);
+  });
+
+  it("requires name and instructions", () => {
+    expect(at({ name: " ", instructions: "" })).toEqual(["error name", "error instructions"]);
+    expect(at({ name: "x".repeat(51) })).toEqual(["warning name"]);
+  });
+
+  it("checks language tags", () => {
+    expect(at({ language: "english" })).toEqual(["error language"]);
+    expect(at({ language: "zh-Hant-TW" })).toEqual([]);
+  });
+
+  it("checks action names, spec URLs, rate limits and domains", () => {
+    expect(at({
+      customActions: [
+        { name: "Tickets", type: "openapi", specUrlOrInline: "ftp://example.com/spec", rateLimitPerMinute: 0, allowedDomains: ["api.example.com", "API.example.com", "not a domain"] },
+        { name: "tickets", type: "openapi" },
+      ],
+    })).toEqual([
+      "error customActions.0.specUrlOrInline", "error customActions.0.rateLimitPerMinute", "error customActions.0.allowedDomains.2", "warning customActions.0.allowedDomains.1",
+      "error customActions.1.name", "warning customActions.1.specUrlOrInline",
+    ]);
+  });
+
+  it("rejects pasted secrets in place of secret names", () => {
+    const issues = issuesFor({ customActions: [{ name: "a", type: "openapi", specUrlOrInline: "https://x.io/spec.json", auth: { type: "api_key", apiKey: { in: "header", name: "X-Key", secretRef: "sk-live-123" } } }] });
+    expect(issues).toEqual([{ path: "customActions.0.auth.apiKey.secretRef", severity: "error", message: expect.stringMatching(/^Use the name of a secret/) }]);
+  });
+
+  it("checks chunking and retention only where they apply", () => {
+    expect(at({ knowledge: { enabled: true, documents: ["a.md"], chunking: { chunkSize: 100, chunkOverlap: 100 } } })).toEqual(["error knowledge.chunking.chunkOverlap"]);
+    expect(at({ memory: { enabled: true, dataRetentionDays: 1.5 } })).toEqual(["error memory.dataRetentionDays"]);
+    expect(at({ memory: { enabled: false, dataRetentionDays: 1.5 } })).toEqual([]);
+  });
+
+  it("warns about duplicates and empty knowledge", () => {
+    expect(at({ tags: ["a", " A"], sampleQuestions: ["Q", "q"], knowledge: { enabled: true, documents: [] } })).toEqual(["warning knowledge.documents", "warning sampleQuestions.1", "warning tags.1"]);
+  });
+
+  it("requires both parts of a starter", () => {
+    expect(at({ conversationStarters: [{ title: "Hi", prompt: " " }] })).toEqual(["error conversationStarters.0.prompt"]);
+  });
+});
+
+describe("issue helpers", () => {
+  const issues = issuesFor({ name: "", customActions: [{ name: "", type: "openapi" }] });
+
+  it("count by severity", () => {
+    expect(countBySeverity(issues)).toEqual({ errors: 2, warnings: 1 });
+  });
+
+  it("select a path and everything under it, not siblings sharing a prefix", () => {
+    expect(issuesUnder(issues, "customActions.0").map(i => i.path)).toEqual(["customActions.0.name", "customActions.0.specUrlOrInline"]);
+    expect(issuesUnder(issues, "custom")).toEqual([]);
+  });
+});
+
+describe("format checks", () => {
+  it("accept http(s) URLs only", () => {
+    expect(isHttpUrl(" https://a.io/x ")).toBe(true);
+    expect(isHttpUrl("mailto:a@b.c")).toBe(false);
+    expect(isHttpUrl("a.io")).toBe(false);
+  });
+
+  it("accept BCP 47 tags", () => {
+    expect(["en", "ur-PK", "sr-Latn-RS", "x-klingon"].every(isLanguageTag)).toBe(true);
+    expect(["e", "english", "en_US", ""].some(isLanguageTag)).toBe(false);
+  });
+});
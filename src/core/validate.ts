@@ -0,0 +1,151 @@
+import type { ConfigIssue, ConversationStarter, CustomGPTConfig } from "./types";
+import { checkSpecAuth, inspectActionSpec, looksLikeUrl } from "./specs";
+import { defaultLocale } from "./locales";
+import { isSecretRef } from "./secrets";
+import { documentName, formatBytes, isKnowledgeFile, MAX_KNOWLEDGE_FILE_BYTES } from "./knowledge";
+
+// BCP 47 language tag (2–3 letter primary language): language[-script][-region][-variant…][-extension…][-x-private], or a bare private-use tag
+const LANGUAGE_TAG = /^[a-z]{2,3}(?:-[a-z]{3}){0,3}(?:-[a-z]{4})?(?:-(?:[a-z]{2}|\d{3}))?(?:-(?:[a-z\d]{5,8}|\d[a-z\d]{3}))*(?:-[\da-wy-z](?:-[a-z\d]{2,8})+)*(?:-x(?:-[a-z\d]{1,8})+)?$|^x(?:-[a-z\d]{1,8})+$/i;
+// RFC 9110 token: the characters allowed in a header name
+const HEADER_NAME = /^[!#$%&'*+.^_`|~\dA-Za-z-]+$/;
+const HOSTNAME = /^(?:\*\.)?(?:[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?\.)*[a-z\d](?:[a-z\d-]{0,61}[a-z\d])?$/i;
+
+export function isLanguageTag(v: string) { return LANGUAGE_TAG.test(v); }
+
+export function isHttpUrl(v: string) {
+  try { const u = new URL(v.trim()); return u.protocol === "https:" || u.protocol === "http:"; }
+  catch { return false; }
+}
+
+/** Issues whose path is `path` or nested beneath it. */
+export function issuesUnder(issues: ConfigIssue[], path: string) {
+  return issues.filter(i => i.path === path || i.path.startsWith(`${path}.`));
+}
+
+export function countBySeverity(issues: ConfigIssue[]) {
+  return { errors: issues.filter(i => i.severity === "error").length, warnings: issues.filter(i => i.severity === "warning").length };
+}
+
+/** Flags repeated entries (case-insensitive, trimmed) in a string list. */
+function duplicates(list: string[] | undefined, path: string, what: string, out: ConfigIssue[]) {
+  const seen = new Set<string>();
+  (list || []).forEach((v, i) => {
+    const key = v.trim().toLowerCase();
+    if (seen.has(key)) out.push({ path: `${path}.${i}`, severity: "warning", message: `Duplicate ${what} "${v}"` });
+    seen.add(key);
+  });
+}
+
+/** Runs every field-level rule over a config. Errors block export; warnings are advisory. */
+export function validateConfig(cfg: CustomGPTConfig): ConfigIssue[] {
+  const out: ConfigIssue[] = [];
+  const error = (path: string, message: string) => out.push({ path, severity: "error", message });
+  const warn = (path: string, message: string) => out.push({ path, severity: "warning", message });
+  const starters = (list: ConversationStarter[] | undefined, path: string) => {
+    (list || []).forEach((s, i) => {
+      if (!s.title.trim()) error(`${path}.${i}.title`, "Starter title is required");
+      if (!s.prompt.trim()) error(`${path}.${i}.prompt`, "Starter prompt is required");
+    });
+    duplicates((list || []).map(s => s.title), path, "starter", out);
+  };
+
+  // Basic
+  if (!cfg.name.trim()) error("name", "Name is required");
+  else if (cfg.name.length > 50) warn("name", "Names longer than 50 characters are usually truncated");
+  if (!cfg.instructions.trim()) error("instructions", "Instructions are required");
+  if (cfg.language !== undefined && !isLanguageTag(cfg.language.trim())) error("language", `"${cfg.language}" is not a valid IETF language tag (e.g. en, ur, en-GB)`);
+  if ((cfg.description || "").length > 300) warn("description", "Keep the description under 300 characters");
+
+  // Custom actions
+  const actionNames = new Set<string>();
+  (cfg.customActions || []).forEach((a, i) => {
+    const p = `customActions.${i}`;
+    const key = a.name.trim().toLowerCase();
+    if (!key) error(`${p}.name`, "Action name is required");
+    else if (actionNames.has(key)) error(`${p}.name`, `Duplicate action name "${a.name}"`);
+    actionNames.add(key);
+    const spec = a.specUrlOrInline || "";
+    if (!spec.trim()) warn(`${p}.specUrlOrInline`, "No spec URL or inline spec");
+    else if (looksLikeUrl(spec) && !isHttpUrl(spec)) error(`${p}.specUrlOrInline`, `"${spec}" is not a valid http(s) URL`);
+    const report = inspectActionSpec(a);
+    if (report?.error) error(`${p}.specUrlOrInline`, `Spec did not parse: ${report.error}`);
+    else if (report) checkSpecAuth(report, a.auth?.type ?? "none").forEach(m => warn(`${p}.auth`, m));
+    if (a.rateLimitPerMinute !== undefined && !(Number.isInteger(a.rateLimitPerMinute) && a.rateLimitPerMinute > 0)) error(`${p}.rateLimitPerMinute`, "Rate limit must be a positive whole number");
+    (a.allowedDomains || []).forEach((d, j) => { if (!HOSTNAME.test(d)) error(`${p}.allowedDomains.${j}`, `"${d}" is not a valid domain`); });
+    duplicates(a.allowedDomains, `${p}.allowedDomains`, "domain", out);
+
+    // Auth: where credentials go, and which named secrets supply them
+    const auth = a.auth, ap = `${p}.auth`;
+    const ref = (path: string, v: string | undefined, example: string) => {
+      if (v === undefined) return;
+      if (!isSecretRef(v)) error(path, `Use the name of a secret (capitals, digits and underscores, e.g. ${example}), never the value itself`);
+    };
+    if (auth?.type === "api_key" && !auth.apiKey) warn(ap, "Say where the key goes: a header or query parameter name");
+    if (auth?.apiKey) {
+      const k = auth.apiKey;
+      if (auth.type !== "api_key") warn(`${ap}.apiKey`, `API key settings are ignored while auth is "${auth.type}"`);
+      if (!HEADER_NAME.test(k.name)) error(`${ap}.apiKey.name`, `"${k.name}" is not a valid ${k.in === "header" ? "header" : "parameter"} name`);
+      if (k.in === "query") warn(`${ap}.apiKey.in`, "Keys in query strings end up in server and proxy logs; prefer a header if the API allows it");
+      if (k.secretRef === undefined && auth.type === "api_key") warn(`${ap}.apiKey.secretRef`, "Name the secret that holds the key (e.g. SUPPORT_API_KEY)");
+      ref(`${ap}.apiKey.secretRef`, k.secretRef, "SUPPORT_API_KEY");
+    }
+    if (auth?.type === "oauth2" && !auth.oauth2) warn(ap, "Add the authorization and token URLs");
+    if (auth?.oauth2) {
+      const o = auth.oauth2, op = `${ap}.oauth2`;
+      if (auth.type !== "oauth2") warn(op, `OAuth settings are ignored while auth is "${auth.type}"`);
+      for (const key of ["authorizationUrl", "tokenUrl"] as const) {
+        if (!isHttpUrl(o[key])) error(`${op}.${key}`, o[key].trim() ? `"${o[key]}" is not a valid http(s) URL` : "Required for OAuth");
+        else if (!/^https:/i.test(o[key].trim())) warn(`${op}.${key}`, "OAuth endpoints should use https");
+      }
+      duplicates(o.scopes, `${op}.scopes`, "scope", out);
+      ref(`${op}.clientIdRef`, o.clientIdRef, "SUPPORT_CLIENT_ID");
+      ref(`${op}.clientSecretRef`, o.clientSecretRef, "SUPPORT_CLIENT_SECRET");
+      if (!o.pkce && o.clientSecretRef === undefined) warn(`${op}.pkce`, "Without PKCE the token exchange needs a client secret; enable PKCE or name the secret");
+    }
+  });
+
+  // Knowledge
+  if (cfg.knowledge?.enabled && !(cfg.knowledge.documents || []).length) warn("knowledge.documents", "Knowledge is enabled but no documents are listed");
+  const docs = cfg.knowledge?.documents || [];
+  duplicates(docs.map(documentName), "knowledge.documents", "document", out);
+  const hashes = new Map<string, number>();
+  docs.forEach((d, i) => {
+    if (!isKnowledgeFile(d)) return;
+    const p = `knowledge.documents.${i}`;
+    if (d.size > MAX_KNOWLEDGE_FILE_BYTES) warn(`${p}.size`, `"${d.name}" is ${formatBytes(d.size)}; files over ${formatBytes(MAX_KNOWLEDGE_FILE_BYTES)} are often rejected`);
+    const first = hashes.get(d.sha256);
+    if (first !== undefined) warn(`${p}.sha256`, `"${d.name}" has the same content as "${documentName(docs[first])}"`);
+    else hashes.set(d.sha256, i);
+  });
+  const chunking = cfg.knowledge?.chunking;
+  if (chunking) {
+    if (!(Number.isInteger(chunking.chunkSize) && chunking.chunkSize > 0)) error("knowledge.chunking.chunkSize", "Chunk size must be a positive whole number");
+    else if (!(Number.isInteger(chunking.chunkOverlap) && chunking.chunkOverlap >= 0 && chunking.chunkOverlap < chunking.chunkSize)) error("knowledge.chunking.chunkOverlap", "Overlap must be a whole number, 0 or more and smaller than the chunk size");
+  }
+
+  // Memory & safety
+  const days = cfg.memory?.dataRetentionDays;
+  if (cfg.memory?.enabled && days !== undefined && !(Number.isInteger(days) && days >= 0)) error("memory.dataRetentionDays", "Retention must be a whole number of days, 0 or more");
+  duplicates(cfg.safety?.customDisallowedPhrases, "safety.customDisallowedPhrases", "phrase", out);
+
+  // Starters & hints
+  starters(cfg.conversationStarters, "conversationStarters");
+  duplicates(cfg.sampleQuestions, "sampleQuestions", "question", out);
+  duplicates(cfg.tags, "tags", "tag", out);
+
+  // Locales
+  const base = defaultLocale(cfg).toLowerCase();
+  for (const [tag, o] of Object.entries(cfg.locales || {})) {
+    const p = `locales.${tag}`;
+    if (!isLanguageTag(tag)) error(p, `"${tag}" is not a valid IETF language tag (e.g. en, ur, en-GB)`);
+    else if (tag.toLowerCase() === base) warn(p, `"${tag}" is the default locale; edit the main fields instead`);
+    if (o.name !== undefined && !o.name.trim()) error(`${p}.name`, "Translated name is empty; remove it to fall back to the default");
+    else if ((o.name || "").length > 50) warn(`${p}.name`, "Names longer than 50 characters are usually truncated");
+    if (o.instructions !== undefined && !o.instructions.trim()) error(`${p}.instructions`, "Translated instructions are empty; remove them to fall back to the default");
+    if ((o.description || "").length > 300) warn(`${p}.description`, "Keep the description under 300 characters");
+    starters(o.conversationStarters, `${p}.conversationStarters`);
+    duplicates(o.sampleQuestions, `${p}.sampleQuestions`, "question", out);
+  }
+
+  return out;
+}
@@ -0,0 +1,146 @@
+import type { CustomGPTConfig, SafetyPolicy } from "./types";
+import { defaultConfig } from "./defaults";
+import { migrateConfig } from "./migrations";
+import type { PlaygroundSettings, TranscriptRun } from "./playground";
+import type { PolicySettings } from "./policy";
+import { templateConfig, type Template } from "./templates";
+
+/** A named, frozen copy of an entry's config. */
+export type Snapshot = { id: string; name: string; createdAt: string; config: CustomGPTConfig };
+/** One saved config. The workspace maintains its `createdAt`/`updatedAt`. `transcripts` holds playground batch runs, newest last. */
+export type WorkspaceEntry = { id: string; config: CustomGPTConfig; snapshots?: Snapshot[]; transcripts?: TranscriptRun[] };
+/**
+ * `templates` are the user's own, shown alongside the built-in gallery; `orgSafety` is layered over every template applied;
+ * `promptBudget` is the token budget the compiled prompt preview warns past; `policy` tunes the policy linter;
+ * `playground` is where test prompts are sent (API keys are never stored).
+ */
+export type Workspace = {
+  version: 1; activeId: string | null; entries: WorkspaceEntry[];
+  templates?: Template[]; orgSafety?: SafetyPolicy; promptBudget?: number; policy?: PolicySettings; playground?: PlaygroundSettings;
+};
+
+/** Where a workspace is persisted. `save` returns false when the backend refused the write (e.g. quota). */
+export interface WorkspaceStorage {
+  load(): Workspace | null;
+  save(ws: Workspace): boolean;
+}
+
+export const WORKSPACE_KEY = "customgpt.workspace.v1";
+
+export function localStorageBackend(key = WORKSPACE_KEY): WorkspaceStorage {
+  return {
+    load() {
+      try {
+        const raw = localStorage.getItem(key);
+        const ws = raw ? JSON.parse(raw) : null;
+        return ws && ws.version === 1 && Array.isArray(ws.entries) ? migrateWorkspace(ws) : null;
+      } catch { return null; }
+    },
+    save(ws) {
+      try { localStorage.setItem(key, JSON.stringify(ws)); return true; }
+      catch { return false; }
+    },
+  };
+}
+
+/** Brings every stored config and snapshot up to the current schema version. */
+function migrateWorkspace(ws: Workspace): Workspace {
+  const up = (c: CustomGPTConfig) => { const m = migrateConfig(c); return m.error ? c : m.doc as CustomGPTConfig; };
+  return { ...ws, entries: ws.entries.map(e => ({ ...e, config: up(e.config), snapshots: e.snapshots?.map(s => ({ ...s, config: up(s.config) })) })) };
+}
+
+function newId() {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Content equality, ignoring the timestamps the workspace manages itself. */
+export function sameContent(a: CustomGPTConfig, b: CustomGPTConfig) {
+  const strip = ({ createdAt, updatedAt, ...rest }: CustomGPTConfig) => JSON.stringify(rest);
+  return strip(a) === strip(b);
+}
+
+export function emptyWorkspace(now = new Date().toISOString()): Workspace {
+  const entry = { id: newId(), config: { ...defaultConfig, createdAt: now, updatedAt: now } };
+  return { version: 1, activeId: entry.id, entries: [entry] };
+}
+
+export function getEntry(ws: Workspace, id: string | null) { return ws.entries.find(e => e.id === id); }
+
+export function createEntry(ws: Workspace, config: CustomGPTConfig, now = new Date().toISOString()): [Workspace, WorkspaceEntry] {
+  const entry = { id: newId(), config: { ...config, createdAt: now, updatedAt: now } };
+  return [{ ...ws, activeId: entry.id, entries: [...ws.entries, entry] }, entry];
+}
+
+export function duplicateEntry(ws: Workspace, id: string, now = new Date().toISOString()): [Workspace, WorkspaceEntry] | null {
+  const src = getEntry(ws, id);
+  if (!src) return null;
+  // Snapshots stay with the original
+  return createEntry(ws, { ...src.config, name: `${src.config.name} (copy)` }, now);
+}
+
+/** Replaces an entry's config, bumping `updatedAt` only when the content actually changed. */
+export function updateEntry(ws: Workspace, id: string, config: CustomGPTConfig, now = new Date().toISOString()): Workspace {
+  const entry = getEntry(ws, id);
+  if (!entry || sameContent(entry.config, config)) return ws;
+  const next = { ...config, createdAt: entry.config.createdAt ?? config.createdAt ?? now, updatedAt: now };
+  return { ...ws, entries: ws.entries.map(e => e.id === id ? { ...e, config: next } : e) };
+}
+
+export function renameEntry(ws: Workspace, id: string, name: string, now = new Date().toISOString()): Workspace {
+  const entry = getEntry(ws, id);
+  return entry ? updateEntry(ws, id, { ...entry.config, name }, now) : ws;
+}
+
+/** Removes an entry; if it was active, the nearest remaining entry becomes active. */
+export function deleteEntry(ws: Workspace, id: string): Workspace {
+  const idx = ws.entries.findIndex(e => e.id === id);
+  if (idx < 0) return ws;
+  const entries = ws.entries.filter(e => e.id !== id);
+  const activeId = ws.activeId !== id ? ws.activeId : (entries[Math.min(idx, entries.length - 1)]?.id ?? null);
+  return { ...ws, activeId, entries };
+}
+
+/** Case-insensitive match on name or any tag; every whitespace-separated term must match. Newest first. */
+export function searchEntries(ws: Workspace, query: string): WorkspaceEntry[] {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const hits = ws.entries.filter(e => {
+    const hay = [e.config.name, ...(e.config.tags || [])].map(s => s.toLowerCase());
+    return terms.every(t => hay.some(h => h.includes(t.replace(/^#/, ""))));
+  });
+  return hits.sort((a, b) => (b.config.updatedAt ?? "").localeCompare(a.config.updatedAt ?? ""));
+}
+
+export function addSnapshot(ws: Workspace, entryId: string, name: string, config: CustomGPTConfig, now = new Date().toISOString()): Workspace {
+  const snap: Snapshot = { id: newId(), name: name.trim() || `Snapshot ${now}`, createdAt: now, config };
+  return { ...ws, entries: ws.entries.map(e => e.id === entryId ? { ...e, snapshots: [...(e.snapshots || []), snap] } : e) };
+}
+
+export function deleteSnapshot(ws: Workspace, entryId: string, snapshotId: string): Workspace {
+  return { ...ws, entries: ws.entries.map(e => e.id === entryId ? { ...e, snapshots: (e.snapshots || []).filter(s => s.id !== snapshotId) } : e) };
+}
+
+/** Keeps the newest `keep` runs per entry. */
+export function addTranscriptRun(ws: Workspace, entryId: string, run: TranscriptRun, keep = 10): Workspace {
+  return { ...ws, entries: ws.entries.map(e => e.id === entryId ? { ...e, transcripts: [...(e.transcripts || []), run].slice(-keep) } : e) };
+}
+
+export function deleteTranscriptRun(ws: Workspace, entryId: string, runId: string): Workspace {
+  return { ...ws, entries: ws.entries.map(e => e.id === entryId ? { ...e, transcripts: (e.transcripts || []).filter(r => r.id !== runId) } : e) };
+}
+
+/** Saves a config's content (not its name or timestamps) as a reusable template. */
+export function addTemplate(ws: Workspace, name: string, description: string, config: CustomGPTConfig): [Workspace, Template] {
+  const template: Template = { id: `user:${newId()}`, name: name.trim() || config.name, description: description.trim(), config: templateConfig(config) };
+  return [{ ...ws, templates: [...(ws.templates || []), template] }, template];
+}
+
+export function deleteTemplate(ws: Workspace, id: string): Workspace {
+  return { ...ws, templates: (ws.templates || []).filter(t => t.id !== id) };
+}
+
+/** An empty policy clears the org defaults. */
+export function setOrgSafety(ws: Workspace, policy: SafetyPolicy): Workspace {
+  const set = Object.values(policy).some(v => Array.isArray(v) ? v.length : v !== undefined);
+  const { orgSafety, ...rest } = ws;
+  return set ? { ...rest, orgSafety: policy } : rest;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { defaultConfig } from "./defaults";
+import { exportConfig } from "./exporters";
+import { parseConfig } from "./parseConfig";
+import { applyTemplate, TEMPLATES } from "./templates";
+import type { CustomGPTConfig } from "./types";
+import { parseYAML, toYAML, YAMLError } from "./yaml";
+
+const roundTrip = (v: unknown) => parseYAML(toYAML(v));
+
+describe("toYAML / parseYAML", () => {
+  it("round-trips scalars that look like other types", () => {
+    for (const s of ["true", "no", "null", "~", "1.4", "007", "1e3", "0x1f", ".inf", "2024-01-31", "2024-01-31T10:00:00Z", ""]) expect(roundTrip({ s })).toEqual({ s });
+  });
+
+  it("round-trips strings with YAML syntax in them", () => {
+    for (const s of ["- item", "key: value", "ends with colon:", "a # not a comment", "#hashtag", "[x]", "{y}", "*alias", "&anchor", "!tag", "|", ">", "'quoted'", "\"double\"", "%directive", "@at", "`tick`", "?", " leading space", "trailing space ", "tab\there", "emoji 🤖 and ünïcödé", "اردو"]) {
+      expect(roundTrip({ s })).toEqual({ s });
+    }
+  });
+
+  it("round-trips multi-line strings, with and without a trailing newline", () => {
+    for (const s of ["line one\nline two", "line one\nline two\n", "ends with blank lines\n\n", "  indented first line\nsecond", "a\n\nb", "crlf\r\nline", "key: value\n- item\n# comment"]) {
+      expect(roundTrip({ s })).toEqual({ s });
+    }
+  });
+
+  it("round-trips nested and empty collections", () => {
+    const v = { a: [], b: {}, c: [[1, 2], [], [{ d: null }]], e: [{ f: true, g: [{ h: -1.5 }] }], i: { j: { k: ["x", "y"] } } };
+    expect(roundTrip(v)).toEqual(v);
+  });
+
+  it("reports the line of a syntax error", () => {
+    expect(() => parseYAML("a: 1\nb: [1, 2\n")).toThrow(YAMLError);
+    expect(() => parseYAML("a: 1\nb: [1, 2\n")).toThrow(/\(line \d+\)/);
+  });
+});
+
+describe("YAML export", () => {
+  const configs: [string, CustomGPTConfig][] = [
+    ["default", defaultConfig],
+    ...TEMPLATES.map(t => [t.id, applyTemplate(defaultConfig, t, "replace")] as [string, CustomGPTConfig]),
+  ];
+
+  it.each(configs)("%s config reads back unchanged", (_, cfg) => {
+    const res = parseConfig(exportConfig(cfg, "yaml").content);
+    expect(res.issues.filter(i => i.severity === "error")).toEqual([]);
+    expect(res.config).toEqual(cfg);
+  });
+
+  it("keeps locales, structured auth and multi-line instructions", () => {
+    const cfg: CustomGPTConfig = {
+      ...defaultConfig,
+      instructions: "Step 1: read the ticket.\nStep 2: answer.\n\n- Never guess.",
+      customActions: [{ name: "Tickets", type: "openapi", specUrlOrInline: "https://api.example.com/openapi.yaml", allowedDomains: ["api.example.com"], auth: { type: "api_key", apiKey: { in: "header", name: "X-API-Key", secretRef: "SUPPORT_API_KEY" } } }],
+      locales: { ur: { name: "مددگار", instructions: "مختصر جواب دیں۔\nشائستہ رہیں۔" }, "fr-CA": { conversationStarters: [] } },
+    };
+    expect(parseConfig(toYAML(cfg)).config).toEqual(cfg);
+  });
+});
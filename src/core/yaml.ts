@@ -0,0 +1,286 @@
+/** Minimal YAML 1.2 emitter for JSON-compatible values (block style, literal blocks for multi-line strings). */
+
+const RESERVED = /^(?:true|false|yes|no|on|off|null|~|y|n)$/i;
+const NUMERIC = /^[-+]?(?:\d[\d_]*(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?$|^0x[\da-f]+$|^0o[0-7]+$|^[-+]?\.(?:inf|nan)$/i;
+const TIMESTAMP = /^\d{4}-\d\d?-\d\d?(?:[Tt ]|$)/;
+
+function isPlain(s: string) {
+  return !!s && !RESERVED.test(s) && !NUMERIC.test(s) && !TIMESTAMP.test(s) && /^[^\s\-?:,[\]{}#&*!|>'"%@`]/.test(s) && !/\s$/.test(s)
+    && !/: |:$| #/.test(s) && !/[\n\r\t]/.test(s);
+}
+
+function quote(s: string) { return isPlain(s) ? s : JSON.stringify(s); }
+
+/** Strings that can be written as a `|` literal block: multi-line, at most one trailing newline, no leading indent. */
+function isBlockString(v: unknown): v is string {
+  return typeof v === "string" && v.includes("\n") && !/\n\n$/.test(v) && !/^[ \t]/.test(v) && !v.includes("\r");
+}
+
+function blockLines(s: string, pad: string) {
+  const header = s.endsWith("\n") ? "|" : "|-";
+  const body = (s.endsWith("\n") ? s.slice(0, -1) : s).split("\n").map(l => l ? pad + l : "");
+  return { header, body };
+}
+
+/** Returns the one-line form of a value, or null when it needs a nested block. */
+function inline(v: unknown): string | null {
+  if (v === null || v === undefined) return "null";
+  if (typeof v === "boolean") return String(v);
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : ".nan";
+  if (typeof v === "string") return quote(v);
+  if (Array.isArray(v)) return v.length ? null : "[]";
+  if (typeof v === "object") return Object.keys(v as object).length ? null : "{}";
+  return JSON.stringify(String(v));
+}
+
+function emit(value: unknown, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  const out: string[] = [];
+  const entry = (prefix: string, v: unknown) => {
+    if (isBlockString(v)) {
+      const { header, body } = blockLines(v, pad + "  ");
+      out.push(`${prefix} ${header}`, ...body);
+      return;
+    }
+    const one = inline(v);
+    if (one !== null) { out.push(`${prefix} ${one}`); return; }
+    return true;
+  };
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!entry(`${pad}-`, item)) continue;
+      const sub = emit(item, indent + 2);
+      sub[0] = `${pad}- ${sub[0].slice(indent + 2)}`;
+      out.push(...sub);
+    }
+  } else {
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      if (v === undefined) continue;
+      if (!entry(`${pad}${quote(k)}:`, v)) continue;
+      out.push(`${pad}${quote(k)}:`, ...emit(v, Array.isArray(v) ? indent : indent + 2));
+    }
+  }
+  return out;
+}
+
+export function toYAML(value: unknown): string {
+  const one = inline(value);
+  if (one !== null) return one + "\n";
+  return emit(value, 0).join("\n") + "\n";
+}
+
+/** Minimal YAML parser covering what API specs use: block maps and sequences, flow collections, quoted and block scalars. */
+export class YAMLError extends Error {
+  constructor(message: string, public line: number) { super(`${message} (line ${line})`); this.name = "YAMLError"; }
+}
+
+type Line = { n: number; indent: number; text: string; raw: string };
+
+const KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"[\]{},-][^]*?|-[^\s][^]*?)\s*:(?:\s+|$)/;
+
+function stripComment(s: string) {
+  let q: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (q) { if (c === "\\" && q === '"') i++; else if (c === q) q = null; }
+    else if (c === '"' || c === "'") { if (i === 0 || /[\s:[{,-]/.test(s[i - 1])) q = c; }
+    else if (c === "#" && (i === 0 || /\s/.test(s[i - 1]))) return s.slice(0, i).trimEnd();
+  }
+  return s.trimEnd();
+}
+
+function unquote(s: string, line: number): string {
+  if (s.startsWith("'")) {
+    if (!s.endsWith("'") || s.length < 2) throw new YAMLError("Unterminated single-quoted string", line);
+    return s.slice(1, -1).replace(/''/g, "'");
+  }
+  try { return JSON.parse(s.replace(/\\'/g, "'").replace(/\t/g, "\\t")); }
+  catch { throw new YAMLError("Invalid double-quoted string", line); }
+}
+
+function resolvePlain(s: string): unknown {
+  if (/^(?:null|Null|NULL|~)?$/.test(s)) return null;
+  if (/^(?:true|True|TRUE)$/.test(s)) return true;
+  if (/^(?:false|False|FALSE)$/.test(s)) return false;
+  if (/^[-+]?\d+$/.test(s)) return parseInt(s, 10);
+  if (/^0x[\da-fA-F]+$/.test(s)) return parseInt(s, 16);
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(s)) return parseFloat(s);
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(s)) return s.startsWith("-") ? -Infinity : Infinity;
+  if (/^\.(?:nan|NaN|NAN)$/.test(s)) return NaN;
+  return s;
+}
+
+function scalar(s: string, line: number): unknown {
+  if (s.startsWith('"') || s.startsWith("'")) return unquote(s, line);
+  if (s.startsWith("&") || s.startsWith("*")) throw new YAMLError("Anchors and aliases are not supported", line);
+  return resolvePlain(s);
+}
+
+/** Parses a flow collection (`[a, b]`, `{ k: v }`) or scalar inside one. */
+function parseFlow(src: string, line: number): unknown {
+  let i = 0;
+  const ws = () => { while (i < src.length && /\s/.test(src[i])) i++; };
+  const value = (): unknown => {
+    ws();
+    const c = src[i];
+    if (c === "[") {
+      i++; const out: unknown[] = [];
+      for (;;) {
+        ws();
+        if (src[i] === "]") { i++; return out; }
+        out.push(value()); ws();
+        if (src[i] === ",") { i++; continue; }
+        if (src[i] === "]") { i++; return out; }
+        throw new YAMLError("Expected , or ] in flow sequence", line);
+      }
+    }
+    if (c === "{") {
+      i++; const out: Record<string, unknown> = {};
+      for (;;) {
+        ws();
+        if (src[i] === "}") { i++; return out; }
+        const k = value(); ws();
+        let v: unknown = null;
+        if (src[i] === ":") { i++; v = value(); ws(); }
+        out[String(k)] = v;
+        if (src[i] === ",") { i++; continue; }
+        if (src[i] === "}") { i++; return out; }
+        throw new YAMLError("Expected , or } in flow mapping", line);
+      }
+    }
+    if (c === '"' || c === "'") {
+      let j = i + 1;
+      while (j < src.length && src[j] !== c) j += src[j] === "\\" && c === '"' ? 2 : src[j] === "'" && src[j + 1] === "'" ? 2 : 1;
+      if (j >= src.length) throw new YAMLError("Unterminated string in flow collection", line);
+      const s = src.slice(i, j + 1); i = j + 1;
+      return unquote(s, line);
+    }
+    let j = i;
+    while (j < src.length && !/[,\]}]/.test(src[j]) && !(src[j] === ":" && /[\s,\]}]|$/.test(src[j + 1] ?? ""))) j++;
+    const s = src.slice(i, j).trim(); i = j;
+    return resolvePlain(s);
+  };
+  const v = value(); ws();
+  if (i < src.length) throw new YAMLError(`Unexpected "${src.slice(i, i + 10)}" after flow collection`, line);
+  return v;
+}
+
+class YAMLReader {
+  private lines: Line[];
+  private i = 0;
+  constructor(text: string) {
+    this.lines = text.replace(/^﻿/, "").split(/\r?\n/).map((raw, n) => {
+      const text = stripComment(raw);
+      return { n: n + 1, indent: raw.length - raw.trimStart().length, text: text.trim(), raw };
+    });
+  }
+  /** Next line with content, skipping blanks, comments and document markers. */
+  private peek(): Line | undefined {
+    while (this.i < this.lines.length && (!this.lines[this.i].text || /^(?:---|\.\.\.)$/.test(this.lines[this.i].text) || this.lines[this.i].text.startsWith("%"))) this.i++;
+    return this.lines[this.i];
+  }
+  parse(): unknown {
+    const first = this.peek();
+    if (!first) return null;
+    const v = this.node(first.indent);
+    const rest = this.peek();
+    if (rest) throw new YAMLError("Unexpected content; check indentation", rest.n);
+    return v;
+  }
+  private node(minIndent: number): unknown {
+    const l = this.peek();
+    if (!l || l.indent < minIndent) return null;
+    if (l.text === "-" || l.text.startsWith("- ")) return this.seq(l.indent);
+    if (KEY.test(l.text)) return this.map(l.indent);
+    this.i++;
+    return this.inlineValue(l.text, l, l.indent - 1);
+  }
+  private seq(indent: number): unknown[] {
+    const out: unknown[] = [];
+    for (let l = this.peek(); l && l.indent === indent && (l.text === "-" || l.text.startsWith("- ")); l = this.peek()) {
+      const rest = l.text.slice(1).trimStart();
+      if (!rest) { this.i++; out.push(this.node(indent + 1)); continue; }
+      const inner = indent + (l.text.length - rest.length);
+      if (KEY.test(rest) || rest === "-" || rest.startsWith("- ")) {
+        // Re-read the remainder as the first line of a nested block at its own column
+        this.lines[this.i] = { ...l, indent: inner, text: rest };
+        out.push(this.node(inner));
+      } else { this.i++; out.push(this.inlineValue(rest, l, indent)); }
+    }
+    return out;
+  }
+  private map(indent: number): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (let l = this.peek(); l && l.indent === indent; l = this.peek()) {
+      const m = KEY.exec(l.text);
+      if (!m) throw new YAMLError(`Expected "key: value"`, l.n);
+      const key = /^["']/.test(m[1]) ? unquote(m[1], l.n) : m[1].trim();
+      const rest = l.text.slice(m[0].length);
+      this.i++;
+      if (!rest) {
+        const next = this.peek();
+        out[key] = next && next.indent === indent && (next.text === "-" || next.text.startsWith("- ")) ? this.seq(indent) : this.node(indent + 1);
+      } else out[key] = this.inlineValue(rest, l, indent);
+    }
+    return out;
+  }
+  /** A value that starts on the current line: block scalar, flow collection, or (possibly multi-line) scalar. */
+  private inlineValue(text: string, l: Line, parentIndent: number): unknown {
+    if (/^[|>][-+]?\d*$/.test(text)) return this.block(text, parentIndent);
+    let s = text;
+    if (/^[[{]/.test(s)) {
+      // Flow collections may wrap across lines until brackets balance
+      while (!balanced(s) && this.i < this.lines.length) s += " " + this.lines[this.i++].text;
+      return parseFlow(s, l.n);
+    }
+    if (/^["']/.test(s)) {
+      while (!closedQuote(s) && this.i < this.lines.length) s += " " + this.lines[this.i++].text;
+      return unquote(s, l.n);
+    }
+    // Plain scalars continue on more-indented lines
+    for (let n = this.peek(); n && n.indent > parentIndent && !KEY.test(n.text) && !n.text.startsWith("- "); n = this.peek()) { s += " " + n.text; this.i++; }
+    return scalar(s, l.n);
+  }
+  private block(header: string, parentIndent: number): string {
+    const folded = header[0] === ">";
+    const chomp = header.includes("-") ? "strip" : header.includes("+") ? "keep" : "clip";
+    const body: string[] = [];
+    let indent = -1;
+    while (this.i < this.lines.length) {
+      const { raw } = this.lines[this.i];
+      const ind = raw.length - raw.trimStart().length;
+      if (raw.trim() && ind <= parentIndent) break;
+      if (raw.trim() && indent < 0) indent = ind;
+      body.push(raw.trim() ? raw.slice(indent) : "");
+      this.i++;
+    }
+    let text = folded ? body.reduce((acc, line, k) => k === 0 ? line : acc + (line === "" || body[k - 1] === "" || /^\s/.test(line) ? "\n" : " ") + line, "") : body.join("\n");
+    if (chomp === "strip") text = text.replace(/\n+$/, "");
+    else if (chomp === "clip") text = text.replace(/\n*$/, "\n");
+    else text += "\n";
+    return text;
+  }
+}
+
+function balanced(s: string) {
+  let depth = 0, q: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (q) { if (c === "\\" && q === '"') i++; else if (c === q) q = null; }
+    else if (c === '"' || c === "'") q = c;
+    else if (c === "[" || c === "{") depth++;
+    else if (c === "]" || c === "}") depth--;
+  }
+  return depth <= 0;
+}
+
+function closedQuote(s: string) {
+  const q = s[0];
+  for (let i = 1; i < s.length; i++) {
+    if (q === '"' && s[i] === "\\") { i++; continue; }
+    if (s[i] === q) { if (q === "'" && s[i + 1] === "'") { i++; continue; } return true; }
+  }
+  return false;
+}
+
+export function parseYAML(text: string): unknown { return new YAMLReader(text).parse(); }
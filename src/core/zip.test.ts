@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip } from "./zip";
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(bytes("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  const date = new Date(2024, 0, 2, 3, 4, 6);
+  const zip = createZip([{ name: "config.json", data: bytes("{}") }, { name: "knowledge/résumé.md", data: bytes("# Hi\n") }], date);
+  const view = new DataView(zip.buffer);
+  const end = zip.length - 22;
+
+  it("writes stored entries followed by a central directory", () => {
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralAt = view.getUint32(end + 16, true);
+    expect(centralAt + view.getUint32(end + 12, true)).toBe(end);
+    expect(view.getUint32(centralAt, true)).toBe(0x02014b50);
+  });
+
+  it("stores data as is, with sizes, CRC, UTF-8 names and a DOS timestamp", () => {
+    const nameLength = view.getUint16(26, true);
+    expect(new TextDecoder().decode(zip.subarray(30, 30 + nameLength))).toBe("config.json");
+    expect(new TextDecoder().decode(zip.subarray(30 + nameLength, 32 + nameLength))).toBe("{}");
+    expect(view.getUint32(14, true)).toBe(crc32(bytes("{}")));
+    expect([view.getUint32(18, true), view.getUint32(22, true)]).toEqual([2, 2]);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (1 << 5) | 2);
+  });
+
+  it("points each central record at its local header", () => {
+    const centralAt = view.getUint32(end + 16, true);
+    const second = centralAt + 46 + view.getUint16(centralAt + 28, true);
+    const offset = view.getUint32(second + 42, true);
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(new TextDecoder().decode(zip.subarray(offset + 30, offset + 30 + view.getUint16(offset + 26, true)))).toBe("knowledge/résumé.md");
+  });
+
+  it("is a bare end record when empty", () => {
+    expect(createZip([], date)).toHaveLength(22);
+  });
+});